@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuditLog } from '@/lib/database';
+
+// GET - Browse the audit log, newest first. Filters: ?fileId=, ?client=, ?from= and ?to=
+// (YYYY-MM-DD), with ?limit= and ?offset= for paging.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fileId = searchParams.get('fileId');
+    const limit = searchParams.get('limit');
+    const offset = searchParams.get('offset');
+
+    const { entries, total } = getAuditLog({
+      fileId: fileId ? Number(fileId) : undefined,
+      clientName: searchParams.get('client') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      limit: limit ? Math.min(Number(limit), 500) : undefined,
+      offset: offset ? Number(offset) : undefined,
+    });
+
+    return NextResponse.json({ entries, total });
+  } catch (error) {
+    console.error('Error loading audit log:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBackup, validateBackup, restoreBackup, BackupArchive } from '@/lib/backup';
+
+// GET - Download a backup of all data
+export async function GET() {
+  try {
+    const archive = createBackup();
+    const date = archive.createdAt.slice(0, 10);
+
+    return new NextResponse(JSON.stringify(archive), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="invoice-tracker-backup-${date}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create backup' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Restore a backup: { archive, mode: 'replace' | 'merge' }
+export async function POST(request: NextRequest) {
+  try {
+    const { archive, mode } = await request.json();
+
+    if (mode !== 'replace' && mode !== 'merge') {
+      return NextResponse.json(
+        { error: 'Invalid mode. Use "replace" or "merge"' },
+        { status: 400 }
+      );
+    }
+    const validationError = validateBackup(archive);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const result = restoreBackup(archive as BackupArchive, mode);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to restore backup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addClientAlias, removeClientAlias, isClientNameConflict } from '@/lib/database';
+
+// POST - Add another spelling of a client's name ({ clientId, alias }) and link the records with it
+export async function POST(request: NextRequest) {
+  try {
+    const { clientId, alias } = await request.json();
+
+    if (!clientId || typeof alias !== 'string' || alias.trim() === '') {
+      return NextResponse.json({ error: 'Client ID and alias are required' }, { status: 400 });
+    }
+
+    const added = addClientAlias(Number(clientId), alias);
+    return NextResponse.json({ success: true, alias: added });
+  } catch (error) {
+    if (isClientNameConflict(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    console.error('Error adding client alias:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to add client alias' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove an alias; records with that name are no longer linked to the client
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = Number(searchParams.get('id'));
+
+    if (!id) {
+      return NextResponse.json({ error: 'Alias ID is required' }, { status: 400 });
+    }
+
+    removeClientAlias(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing client alias:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove client alias' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { previewClientMerge, mergeClients } from '@/lib/database';
+
+// GET - What merging client ?sourceId= into ?targetId= would change
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sourceId = Number(searchParams.get('sourceId'));
+    const targetId = Number(searchParams.get('targetId'));
+
+    if (!sourceId || !targetId) {
+      return NextResponse.json({ error: 'Both client IDs are required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ preview: previewClientMerge(sourceId, targetId) });
+  } catch (error) {
+    console.error('Error previewing client merge:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to preview client merge' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Merge one client into another ({ sourceId, targetId })
+export async function POST(request: NextRequest) {
+  try {
+    const { sourceId, targetId } = await request.json();
+
+    if (!sourceId || !targetId) {
+      return NextResponse.json({ error: 'Both client IDs are required' }, { status: 400 });
+    }
+    if (Number(sourceId) === Number(targetId)) {
+      return NextResponse.json({ error: 'A client cannot be merged into itself' }, { status: 400 });
+    }
+
+    mergeClients(Number(sourceId), Number(targetId));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error merging clients:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to merge clients' },
+      { status: 500 }
+    );
+  }
+}
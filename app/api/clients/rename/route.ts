@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { previewClientRename, renameClient, isClientNameConflict } from '@/lib/database';
+
+// GET - What renaming client ?id= would change
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = Number(searchParams.get('id'));
+
+    if (!id) {
+      return NextResponse.json({ error: 'Client ID is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ preview: previewClientRename(id) });
+  } catch (error) {
+    console.error('Error previewing client rename:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to preview client rename' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Rename a client and its lessons ({ id, name })
+export async function POST(request: NextRequest) {
+  try {
+    const { id, name } = await request.json();
+
+    if (!id || typeof name !== 'string' || name.trim() === '') {
+      return NextResponse.json({ error: 'Client ID and new name are required' }, { status: 400 });
+    }
+
+    renameClient(Number(id), name);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isClientNameConflict(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    console.error('Error renaming client:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rename client' },
+      { status: 500 }
+    );
+  }
+}
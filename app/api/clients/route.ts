@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getClients,
+  getUnmatchedClients,
+  createClient,
+  updateClientDetails,
+  deleteClient,
+  isClientNameConflict
+} from '@/lib/database';
+
+// GET - List clients, and the client names in invoices not linked to one with the clients they may be
+export async function GET() {
+  try {
+    return NextResponse.json({
+      clients: getClients(),
+      unmatched: getUnmatchedClients()
+    });
+  } catch (error) {
+    console.error('Error loading clients:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load clients' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a client ({ name, email, phone, notes }); records with its name are linked to it
+export async function POST(request: NextRequest) {
+  try {
+    const { name, email, phone, notes } = await request.json();
+
+    if (typeof name !== 'string' || name.trim() === '') {
+      return NextResponse.json({ error: 'Client name is required' }, { status: 400 });
+    }
+
+    const client = createClient(name, { email, phone, notes });
+    return NextResponse.json({ success: true, client });
+  } catch (error) {
+    if (isClientNameConflict(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    console.error('Error creating client:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create client' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update a client's contact details and notes ({ id, email, phone, notes })
+export async function PUT(request: NextRequest) {
+  try {
+    const { id, email, phone, notes } = await request.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'Client ID is required' }, { status: 400 });
+    }
+
+    updateClientDetails(Number(id), { email, phone, notes });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating client:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update client' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a client and its aliases; its records are kept, unlinked
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = Number(searchParams.get('id'));
+
+    if (!id) {
+      return NextResponse.json({ error: 'Client ID is required' }, { status: 400 });
+    }
+
+    deleteClient(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting client:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete client' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findDuplicateLessons, setRecordDuplicateOf, deleteRecord } from '@/lib/database';
+
+// GET - Lessons that appear in more than one file, optionally only those of ?fileId=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fileId = searchParams.get('fileId');
+
+    return NextResponse.json({
+      groups: findDuplicateLessons(fileId ? Number(fileId) : undefined)
+    });
+  } catch (error) {
+    console.error('Error finding duplicate lessons:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to find duplicate lessons' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Hide a copy of a lesson ({ recordId, duplicateOf }) or show it again (duplicateOf null)
+export async function PUT(request: NextRequest) {
+  try {
+    const { recordId, duplicateOf } = await request.json();
+
+    if (!recordId || duplicateOf === undefined) {
+      return NextResponse.json(
+        { error: 'Record ID and the record it duplicates are required' },
+        { status: 400 }
+      );
+    }
+
+    setRecordDuplicateOf(Number(recordId), duplicateOf === null ? null : Number(duplicateOf));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error hiding duplicate lesson:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to hide duplicate lesson' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete one copy of a lesson
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const recordId = Number(searchParams.get('recordId'));
+
+    if (!recordId) {
+      return NextResponse.json({ error: 'Record ID is required' }, { status: 400 });
+    }
+
+    deleteRecord(recordId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting duplicate lesson:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete duplicate lesson' },
+      { status: 500 }
+    );
+  }
+}
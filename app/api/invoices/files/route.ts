@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getAllUploadedFiles, purgeExpiredFiles } from '@/lib/database';
+
+// GET - List uploaded files that aren't in the trash, newest first
+export async function GET() {
+  try {
+    // Files kept in the trash past the retention period are removed for good
+    purgeExpiredFiles();
+
+    return NextResponse.json({ files: getAllUploadedFiles() });
+  } catch (error) {
+    console.error('Error loading files:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load files' },
+      { status: 500 }
+    );
+  }
+}
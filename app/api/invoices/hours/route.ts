@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHoursReport } from '@/lib/database';
+import { HoursGrouping } from '@/lib/hoursReport';
+
+const GROUPINGS: HoursGrouping[] = ['day', 'week', 'client'];
+
+// GET - Teaching hours and amounts of all listed lessons, ?grouping=day|week|client
+export async function GET(request: NextRequest) {
+  try {
+    const grouping = request.nextUrl.searchParams.get('grouping') || 'week';
+    if (!GROUPINGS.includes(grouping as HoursGrouping)) {
+      return NextResponse.json(
+        { error: `grouping must be one of ${GROUPINGS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(getHoursReport(grouping as HoursGrouping));
+  } catch (error) {
+    console.error('Error loading hours report:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load hours report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { updateInvoiceKilometers, updateMultipleInvoiceKilometers } from '@/lib/database';
+import { getRecordsNeedingKilometers, updateInvoiceKilometers, updateMultipleInvoiceKilometers } from '@/lib/database';
+
+// GET - Lessons of the days that have a lesson whose kilometers aren't worked out yet
+export async function GET() {
+  try {
+    return NextResponse.json({ records: getRecordsNeedingKilometers() });
+  } catch (error) {
+    console.error('Error loading lessons without kilometers:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load lessons without kilometers' },
+      { status: 500 }
+    );
+  }
+}
 
 // POST - Update kilometers for invoice record(s)
 export async function POST(request: NextRequest) {
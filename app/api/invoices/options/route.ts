@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getInvoiceFilterOptions } from '@/lib/database';
+
+// GET - The client names and lesson date range the invoice list can be filtered by
+export async function GET() {
+  try {
+    return NextResponse.json(getInvoiceFilterOptions());
+  } catch (error) {
+    console.error('Error loading filter options:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load filter options' },
+      { status: 500 }
+    );
+  }
+}
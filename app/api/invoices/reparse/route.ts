@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reparseFile, reparseAllFiles } from '@/lib/reparse';
+
+// POST - Read a file ({ fileId }) or every file ({}) again from its original workbook.
+// Files whose lessons now read differently are queued for review.
+export async function POST(request: NextRequest) {
+  try {
+    const { fileId } = await request.json();
+    const results = fileId ? [reparseFile(Number(fileId))] : reparseAllFiles();
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error re-parsing files:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to re-parse files' },
+      { status: 500 }
+    );
+  }
+}
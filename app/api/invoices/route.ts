@@ -1,40 +1,88 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getAllInvoices,
+  getInvoicePage,
+  InvoiceQuery,
+  InvoiceSortKey,
   deleteFile,
+  purgeExpiredFiles,
   replaceFile,
   mergeFile,
+  resolveFileDiff,
   getFileByFilename
 } from '@/lib/database';
 import { computeFileHash } from '@/lib/fileHash';
 import { InvoiceRecord, ParsedInvoiceData } from '@/lib/invoiceTypes';
+import { normalizeRecordDates, isCalendarDate } from '@/lib/calendarDate';
 
-function serializeRecord(record: InvoiceRecord): InvoiceRecord {
-  const serialized: InvoiceRecord = {};
-  Object.keys(record).forEach(key => {
-    const value = record[key];
-    if (value instanceof Date) {
-      serialized[key] = value.toISOString();
-    } else {
-      serialized[key] = value;
+const SORT_KEYS: InvoiceSortKey[] = ['date', 'client', 'amount', 'startTime', 'kilometers', 'file'];
+
+// Read the filters, sort and page from the query string. Returns an error message for invalid values.
+function parseInvoiceQuery(params: URLSearchParams): InvoiceQuery | string {
+  const query: InvoiceQuery = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (value) {
+      if (!isCalendarDate(value)) {
+        return `${key} must be a YYYY-MM-DD date`;
+      }
+      query[key] = value;
+    }
+  }
+
+  const clients = params.getAll('client').map(client => client.trim()).filter(Boolean);
+  if (clients.length > 0) {
+    query.clients = clients;
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    if (!SORT_KEYS.includes(sort as InvoiceSortKey)) {
+      return `sort must be one of ${SORT_KEYS.join(', ')}`;
+    }
+    query.sort = sort as InvoiceSortKey;
+  }
+
+  const order = params.get('order');
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') {
+      return 'order must be asc or desc';
+    }
+    query.order = order;
+  }
+
+  for (const key of ['fileId', 'page', 'pageSize'] as const) {
+    const value = params.get(key);
+    if (value) {
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < 1) {
+        return `${key} must be a positive whole number`;
+      }
+      query[key] = number;
     }
-  });
-  return serialized;
+  }
+
+  return query;
 }
 
-export async function GET() {
+// GET - One page of the invoices matching from, to, client (repeatable) and fileId, sorted by
+// sort and order, with totals for all of them. With export=true, every invoice for exporting.
+export async function GET(request: NextRequest) {
   try {
-    const { files, records, columns, totalAmount } = getAllInvoices();
+    // Files kept in the trash past the retention period are removed for good
+    purgeExpiredFiles();
 
-    // Serialize dates in records
-    const serializedRecords = records.map(serializeRecord);
+    const params = request.nextUrl.searchParams;
+    if (params.get('export') === 'true') {
+      return NextResponse.json(getAllInvoices());
+    }
 
-    return NextResponse.json({
-      files,
-      records: serializedRecords,
-      columns,
-      totalAmount
-    });
+    const query = parseInvoiceQuery(params);
+    if (typeof query === 'string') {
+      return NextResponse.json({ error: query }, { status: 400 });
+    }
+    return NextResponse.json(getInvoicePage(query));
   } catch (error) {
     console.error('Error loading invoices:', error);
     return NextResponse.json(
@@ -44,6 +92,7 @@ export async function GET() {
   }
 }
 
+// Move a file to the trash; it can be restored from there until it is purged
 export async function DELETE(request: NextRequest) {
   try {
     const { fileId } = await request.json();
@@ -67,10 +116,11 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-// Handle replace/merge operations for diff conflicts
+// Handle replace/merge operations for diff conflicts, or apply the choices made for
+// each record when the diff was reviewed ('resolve')
 export async function PUT(request: NextRequest) {
   try {
-    const { action, fileId, filename, newData } = await request.json();
+    const { action, fileId, filename, newData, resolutions } = await request.json();
 
     if (!action || !fileId || !filename || !newData) {
       return NextResponse.json(
@@ -79,27 +129,16 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Deserialize dates in newData.records
+    // Lesson dates arrive as YYYY-MM-DD; older clients may still send timestamps
     const deserializedData: ParsedInvoiceData = {
-      records: newData.records.map((record: InvoiceRecord) => {
-        const deserialized: InvoiceRecord = {};
-        Object.keys(record).forEach(key => {
-          const value = record[key];
-          if (typeof value === 'string' && key.toLowerCase().includes('date')) {
-            const date = new Date(value);
-            if (!isNaN(date.getTime())) {
-              deserialized[key] = date;
-            } else {
-              deserialized[key] = value;
-            }
-          } else {
-            deserialized[key] = value;
-          }
-        });
-        return deserialized;
-      }),
+      records: newData.records.map((record: InvoiceRecord) => normalizeRecordDates(record)),
       columns: newData.columns,
-      totalAmount: newData.totalAmount
+      totalAmount: newData.totalAmount,
+      lineItemsTotal: newData.lineItemsTotal,
+      totalDifference: newData.totalDifference,
+      sheetName: newData.sheetName,
+      metadata: newData.metadata,
+      recordIdentity: newData.recordIdentity
     };
 
     // Generate a new content hash for the updated data
@@ -113,25 +152,22 @@ export async function PUT(request: NextRequest) {
       newFileId = replaceFile(fileId, filename, contentHash, deserializedData);
     } else if (action === 'merge') {
       newFileId = mergeFile(fileId, filename, contentHash, deserializedData);
+    } else if (action === 'resolve') {
+      if (!Array.isArray(resolutions)) {
+        return NextResponse.json(
+          { error: 'Resolutions are required to resolve a diff' },
+          { status: 400 }
+        );
+      }
+      newFileId = resolveFileDiff(fileId, filename, contentHash, deserializedData, resolutions);
     } else {
       return NextResponse.json(
-        { error: 'Invalid action. Use "replace" or "merge"' },
+        { error: 'Invalid action. Use "replace", "merge" or "resolve"' },
         { status: 400 }
       );
     }
 
-    // Return updated invoice list
-    const { files, records, columns, totalAmount } = getAllInvoices();
-    const serializedRecords = records.map(serializeRecord);
-
-    return NextResponse.json({
-      success: true,
-      newFileId,
-      files,
-      records: serializedRecords,
-      columns,
-      totalAmount
-    });
+    return NextResponse.json({ success: true, newFileId });
   } catch (error) {
     console.error('Error updating file:', error);
     return NextResponse.json(
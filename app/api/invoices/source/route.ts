@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceFile } from '@/lib/database';
+
+// GET - Download the workbook file ?fileId= was read from, as it was uploaded
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fileId = Number(searchParams.get('fileId'));
+
+    if (!fileId) {
+      return NextResponse.json({ error: 'File ID is required' }, { status: 400 });
+    }
+
+    const source = getSourceFile(fileId);
+    if (!source) {
+      return NextResponse.json({ error: 'The original file was not kept' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(source.content), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(source.size),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(source.filename)}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading original file:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to download original file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAllLayoutProfiles,
+  createLayoutProfile,
+  updateLayoutProfile,
+  deleteLayoutProfile
+} from '@/lib/database';
+import { DEFAULT_LAYOUT_PROFILE, normalizeLayoutProfile, validateLayoutProfile } from '@/lib/layoutProfiles';
+
+function isNameConflict(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('UNIQUE constraint failed');
+}
+
+// GET - List saved layout profiles and the built-in default
+export async function GET() {
+  try {
+    return NextResponse.json({
+      profiles: getAllLayoutProfiles(),
+      defaultProfile: DEFAULT_LAYOUT_PROFILE
+    });
+  } catch (error) {
+    console.error('Error loading layout profiles:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load layout profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a layout profile
+export async function POST(request: NextRequest) {
+  try {
+    const profile = normalizeLayoutProfile(await request.json());
+    const validationError = validateLayoutProfile(profile);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const id = createLayoutProfile(profile);
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    if (isNameConflict(error)) {
+      return NextResponse.json({ error: 'A layout profile with this name already exists' }, { status: 409 });
+    }
+    console.error('Error creating layout profile:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create layout profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update a layout profile
+export async function PUT(request: NextRequest) {
+  try {
+    const profile = normalizeLayoutProfile(await request.json());
+    if (profile.id === undefined) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 });
+    }
+    const validationError = validateLayoutProfile(profile);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    updateLayoutProfile(profile.id, profile);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isNameConflict(error)) {
+      return NextResponse.json({ error: 'A layout profile with this name already exists' }, { status: 409 });
+    }
+    console.error('Error updating layout profile:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update layout profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a layout profile
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = Number(searchParams.get('id'));
+
+    if (!id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 });
+    }
+
+    deleteLayoutProfile(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting layout profile:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete layout profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLesson, updateLesson, deleteRecord, LessonInput } from '@/lib/database';
+import { isCalendarDate } from '@/lib/calendarDate';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Read a lesson from a request body. Returns an error message for invalid values.
+function parseLessonInput(body: any): LessonInput | string {
+  const { lessonDate, clientName, amount = null, startTime = null, durationMinutes = null } = body || {};
+
+  if (!isCalendarDate(lessonDate)) {
+    return 'Lesson date must be a YYYY-MM-DD date';
+  }
+  if (typeof clientName !== 'string' || clientName.trim() === '') {
+    return 'Client name is required';
+  }
+  if (amount !== null && (typeof amount !== 'number' || !isFinite(amount))) {
+    return 'Amount must be a number';
+  }
+  if (startTime !== null && (typeof startTime !== 'string' || !TIME_OF_DAY.test(startTime))) {
+    return 'Start time must be an HH:MM time';
+  }
+  if (durationMinutes !== null && (!Number.isInteger(durationMinutes) || durationMinutes <= 0)) {
+    return 'Duration must be a whole number of minutes';
+  }
+
+  return {
+    lessonDate,
+    clientName,
+    amount: amount === null ? null : Math.round(amount * 100) / 100,
+    startTime,
+    durationMinutes
+  };
+}
+
+// POST - Add a lesson by hand ({ fileId?, lessonDate, clientName, amount, startTime, durationMinutes }).
+// Without a fileId the lesson goes into the manual entries file.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const input = parseLessonInput(body);
+
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const id = createLesson(input, body.fileId ? Number(body.fileId) : undefined);
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error('Error adding lesson:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to add lesson' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change a lesson ({ id, lessonDate, clientName, amount, startTime, durationMinutes })
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const id = Number(body?.id);
+
+    if (!id) {
+      return NextResponse.json({ error: 'Record ID is required' }, { status: 400 });
+    }
+    const input = parseLessonInput(body);
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    updateLesson(id, input);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating lesson:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update lesson' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete lesson ?id=
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = Number(searchParams.get('id'));
+
+    if (!id) {
+      return NextResponse.json({ error: 'Record ID is required' }, { status: 400 });
+    }
+
+    deleteRecord(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting lesson:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete lesson' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPendingReviews,
+  getPendingReview,
+  setPendingReviewStatus,
+  deletePendingReview,
+  compareFileData,
+  replaceFile,
+  mergeFile,
+  resolveFileDiff,
+  PendingReview
+} from '@/lib/database';
+
+// A queued review with the size of its diff against the uploaded file
+export interface ReviewSummary extends PendingReview {
+  added: number;
+  removed: number;
+  modified: number;
+}
+
+// GET - List files waiting for a review decision, or the diff of one with ?id=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const review = getPendingReview(Number(id));
+      if (!review) {
+        return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+      }
+      // Compared with the file as it is now, so earlier decisions are taken into account
+      const { data, ...details } = review;
+      return NextResponse.json({
+        review: details,
+        diff: compareFileData(review.existing_file_id, data)
+      });
+    }
+
+    const reviews: ReviewSummary[] = getPendingReviews().map(review => {
+      const { data } = getPendingReview(review.id)!;
+      const diff = compareFileData(review.existing_file_id, data);
+      return {
+        ...review,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        modified: diff.modified.length
+      };
+    });
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error loading reviews:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Resolve a review ('replace', 'merge' or 'resolve' with per-record choices),
+// or put it off until later ('postpone')
+export async function PUT(request: NextRequest) {
+  try {
+    const { id, action, resolutions } = await request.json();
+
+    if (!id || !action) {
+      return NextResponse.json({ error: 'Review ID and action are required' }, { status: 400 });
+    }
+
+    const review = getPendingReview(Number(id));
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+
+    if (action === 'postpone') {
+      setPendingReviewStatus(review.id, 'postponed');
+      return NextResponse.json({ success: true });
+    }
+
+    // The file is then read from the workbook this version came from
+    const { existing_file_id, filename, content_hash, source_file_id, data } = review;
+    if (action === 'replace') {
+      replaceFile(existing_file_id, filename, content_hash, data, source_file_id);
+    } else if (action === 'merge') {
+      mergeFile(existing_file_id, filename, content_hash, data, source_file_id);
+    } else if (action === 'resolve') {
+      if (!Array.isArray(resolutions)) {
+        return NextResponse.json(
+          { error: 'Resolutions are required to resolve a diff' },
+          { status: 400 }
+        );
+      }
+      resolveFileDiff(existing_file_id, filename, content_hash, data, resolutions, source_file_id);
+    } else {
+      return NextResponse.json(
+        { error: 'Invalid action. Use "replace", "merge", "resolve" or "postpone"' },
+        { status: 400 }
+      );
+    }
+    deletePendingReview(review.id);
+
+    return NextResponse.json({ success: true, fileId: existing_file_id });
+  } catch (error) {
+    console.error('Error resolving review:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve review' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Discard a review, leaving the uploaded file as it is
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = Number(searchParams.get('id'));
+
+    if (!id) {
+      return NextResponse.json({ error: 'Review ID is required' }, { status: 400 });
+    }
+
+    deletePendingReview(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error discarding review:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to discard review' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTrashedFiles,
+  restoreFile,
+  purgeFile,
+  purgeExpiredFiles,
+  TRASH_RETENTION_DAYS
+} from '@/lib/database';
+
+// GET - List files in the trash
+export async function GET() {
+  try {
+    purgeExpiredFiles();
+
+    return NextResponse.json({
+      files: getTrashedFiles(),
+      retentionDays: TRASH_RETENTION_DAYS
+    });
+  } catch (error) {
+    console.error('Error loading trash:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load trash' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Restore a file from the trash with its records and kilometers
+export async function PUT(request: NextRequest) {
+  try {
+    const { fileId } = await request.json();
+
+    if (!fileId) {
+      return NextResponse.json({ error: 'File ID is required' }, { status: 400 });
+    }
+
+    restoreFile(Number(fileId));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error restoring file:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to restore file' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Permanently delete a file in the trash (?fileId=), or empty the trash (?all=true)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('all') === 'true') {
+      const purged = purgeExpiredFiles(0);
+      return NextResponse.json({ success: true, purged });
+    }
+
+    const fileId = Number(searchParams.get('fileId'));
+    if (!fileId) {
+      return NextResponse.json({ error: 'File ID is required' }, { status: 400 });
+    }
+
+    purgeFile(fileId);
+    return NextResponse.json({ success: true, purged: 1 });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to purge trash' },
+      { status: 500 }
+    );
+  }
+}
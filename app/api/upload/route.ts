@@ -1,52 +1,136 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseExcelBuffer } from '@/lib/excelParser';
-import { ParsedInvoiceData, InvoiceRecord } from '@/lib/invoiceTypes';
-import { computeFileHash } from '@/lib/fileHash';
+import { parseWorkbook } from '@/lib/excelParser';
+import { ParsedInvoiceData, LayoutProfile, ParseDiagnostic, UploadDateOverrides } from '@/lib/invoiceTypes';
+import { computeFileHash, computeSheetHash } from '@/lib/fileHash';
+import { DEFAULT_LAYOUT_PROFILE } from '@/lib/layoutProfiles';
+import { isCalendarDate } from '@/lib/calendarDate';
 import {
   getFileByHash,
   getFileByFilename,
   saveInvoiceData,
+  replaceFile,
   compareFileData,
-  DiffResult
+  savePendingReview,
+  findDuplicateLessons,
+  getUnmatchedClients,
+  getAllLayoutProfiles,
+  getLayoutProfile,
+  saveSourceFile,
+  diffHasChanges,
+  DiffResult,
+  UploadedFile
 } from '@/lib/database';
 
 export interface UploadResponse {
-  status: 'success' | 'duplicate' | 'diff';
+  status: 'success' | 'duplicate' | 'diff' | 'preview';
+  sheetName?: string; // Worksheet this result is for
   data?: ParsedInvoiceData;
   message?: string;
+  diagnostics?: ParseDiagnostic[]; // Rows ignored and problems found while parsing this file
+  // Set when the file total doesn't equal the sum of the line items
+  totalMismatch?: {
+    fileTotal: number;
+    lineItemsTotal: number;
+    difference: number;
+  };
   duplicateInfo?: {
     filename: string;
     uploadedAt: string;
   };
+  // Lessons of this file that also appear in another uploaded file
+  duplicateLessons?: number;
+  // Client names of this file that resemble a known client, waiting to be matched on the Clients page
+  unmatchedClients?: string[];
   diffInfo?: {
+    reviewId: number; // Entry in the review queue holding this diff until it is resolved
     filename: string;
     existingFileId: number;
     diff: DiffResult;
     newData: ParsedInvoiceData;
   };
+  // Set in preview mode: what a real upload of this file would do. Nothing is written.
+  previewInfo?: {
+    filename: string;
+    sheetName?: string;
+    outcome: 'new' | 'duplicate' | 'diff';
+    existingFileId?: number;
+    diff?: DiffResult;
+  };
 }
 
-function serializeRecord(record: InvoiceRecord): InvoiceRecord {
-  const serialized: InvoiceRecord = {};
-  Object.keys(record).forEach(key => {
-    const value = record[key];
-    if (value instanceof Date) {
-      serialized[key] = value.toISOString();
-    } else {
-      serialized[key] = value;
-    }
-  });
-  return serialized;
+// What happened to each sheet of an uploaded workbook
+export interface WorkbookSummary {
+  filename: string;
+  sheets: {
+    sheetName: string;
+    outcome: 'imported' | 'duplicate' | 'diff' | 'preview' | 'ignored';
+    reason?: string; // Why an ignored sheet was not read as an invoice
+  }[];
 }
 
-function serializeData(data: ParsedInvoiceData): ParsedInvoiceData {
+function getTotalMismatch(data: ParsedInvoiceData): UploadResponse['totalMismatch'] {
+  if (!data.totalDifference) return undefined;
   return {
-    records: data.records.map(serializeRecord),
-    columns: data.columns,
-    totalAmount: data.totalAmount
+    fileTotal: data.totalAmount || 0,
+    lineItemsTotal: data.lineItemsTotal || 0,
+    difference: data.totalDifference
   };
 }
 
+// Resolve which layout profiles to try: the one chosen in the upload form,
+// or every saved profile followed by the built-in default when auto-detecting
+function getCandidateProfiles(profileId: FormDataEntryValue | null): LayoutProfile[] | null {
+  if (!profileId || profileId === 'auto') {
+    return [...getAllLayoutProfiles(), DEFAULT_LAYOUT_PROFILE];
+  }
+  if (profileId === 'default') {
+    return [DEFAULT_LAYOUT_PROFILE];
+  }
+  const profile = getLayoutProfile(Number(profileId));
+  return profile ? [profile] : null;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Read the dates picked in the preview: filename -> sheet -> row -> YYYY-MM-DD. Returns an
+// error message when they aren't in that shape or a date isn't a YYYY-MM-DD date.
+function parseDateOverrides(json: string): UploadDateOverrides | string {
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch {
+    return 'Invalid date overrides';
+  }
+  if (!isObject(overrides)) {
+    return 'Invalid date overrides';
+  }
+  for (const sheets of Object.values(overrides)) {
+    if (!isObject(sheets)) {
+      return 'Invalid date overrides';
+    }
+    for (const rows of Object.values(sheets)) {
+      if (!isObject(rows)) {
+        return 'Invalid date overrides';
+      }
+      for (const date of Object.values(rows)) {
+        if (!isCalendarDate(date)) {
+          return 'Date overrides must be YYYY-MM-DD dates';
+        }
+      }
+    }
+  }
+  return overrides as UploadDateOverrides;
+}
+
+// A file in the trash keeps its content hash until it is purged, so the same content is
+// only uploaded again once that file is restored or deleted for good
+function duplicateMessage(label: string, existing: UploadedFile): string {
+  return existing.deleted_at
+    ? `${label} is in the trash; restore it, or delete it for good on the Trash page to upload it again`
+    : `${label} was already uploaded on ${new Date(existing.uploaded_at).toLocaleDateString()}`;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
@@ -59,68 +143,183 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Process each file individually
+    const profiles = getCandidateProfiles(formData.get('profileId'));
+    if (!profiles) {
+      return NextResponse.json(
+        { error: 'Layout profile not found' },
+        { status: 400 }
+      );
+    }
+
+    // In preview mode files are parsed and compared but nothing is saved
+    const isPreview = formData.get('preview') === 'true';
+
+    // Dates picked in the preview for ambiguous rows: filename -> sheet -> row -> YYYY-MM-DD
+    let dateOverrides: UploadDateOverrides = {};
+    const dateOverridesJson = formData.get('dateOverrides');
+    if (typeof dateOverridesJson === 'string' && dateOverridesJson) {
+      const parsed = parseDateOverrides(dateOverridesJson);
+      if (typeof parsed === 'string') {
+        return NextResponse.json(
+          { error: parsed },
+          { status: 400 }
+        );
+      }
+      dateOverrides = parsed;
+    }
+
+    // Process each file individually; a workbook yields one result per invoice sheet
     const responses: UploadResponse[] = [];
+    const workbooks: WorkbookSummary[] = [];
 
     for (const file of files) {
       const arrayBuffer = await file.arrayBuffer();
-      const contentHash = computeFileHash(arrayBuffer);
+      const fileHash = computeFileHash(arrayBuffer);
 
-      // Check if this exact file has been uploaded before
-      const existingByHash = getFileByHash(contentHash);
+      // Check if this exact file has been uploaded before, or is in the trash
+      const existingByHash = getFileByHash(fileHash);
       if (existingByHash) {
         responses.push({
-          status: 'duplicate',
-          message: `File "${file.name}" was already uploaded on ${new Date(existingByHash.uploaded_at).toLocaleDateString()}`,
+          status: isPreview ? 'preview' : 'duplicate',
+          message: duplicateMessage(`File "${file.name}"`, existingByHash),
           duplicateInfo: {
             filename: existingByHash.filename,
             uploadedAt: existingByHash.uploaded_at
-          }
+          },
+          previewInfo: isPreview ? { filename: file.name, outcome: 'duplicate' } : undefined
         });
         continue;
       }
 
-      // Parse the Excel file
-      const parsedData = parseExcelBuffer(arrayBuffer);
-      parsedData.fileName = file.name;
+      // Parse every sheet of the workbook (.xlsx, .xls, .ods or .csv)
+      const { invoices, ignoredSheets } = parseWorkbook(arrayBuffer, profiles, file.name, dateOverrides[file.name]);
+      const isMultiSheet = invoices.length > 1;
+      const summary: WorkbookSummary = {
+        filename: file.name,
+        sheets: ignoredSheets.map(sheet => ({ ...sheet, outcome: 'ignored' as const }))
+      };
+      workbooks.push(summary);
+
+      // The workbook is kept with the files read from it, stored once the first sheet is saved
+      let sourceFileId: number | null = null;
+      const getSourceFileId = (): number => {
+        if (sourceFileId === null) {
+          sourceFileId = saveSourceFile(file.name, fileHash, Buffer.from(arrayBuffer));
+        }
+        return sourceFileId;
+      };
+
+      for (const [index, parsedData] of invoices.entries()) {
+        const sheetName = parsedData.sheetName!;
+        const label = isMultiSheet ? `"${file.name}" (sheet "${sheetName}")` : `"${file.name}"`;
+        parsedData.fileName = file.name;
 
-      // Check if a file with the same name exists (but different content)
-      const existingByName = getFileByFilename(file.name);
-      if (existingByName) {
-        // File with same name but different content - show diff
-        const diff = compareFileData(existingByName.id, parsedData);
+        // A single-invoice workbook is identified by the file hash, as before multi-sheet import.
+        // Each sheet of a multi-invoice workbook gets its own hash so unchanged sheets stay duplicates.
+        const contentHash = isMultiSheet ? computeSheetHash(parsedData) : fileHash;
+
+        if (isMultiSheet) {
+          const existingSheet = getFileByHash(contentHash);
+          if (existingSheet) {
+            summary.sheets.push({ sheetName, outcome: 'duplicate' });
+            responses.push({
+              status: isPreview ? 'preview' : 'duplicate',
+              sheetName,
+              message: duplicateMessage(`Sheet "${sheetName}" of "${file.name}"`, existingSheet),
+              duplicateInfo: {
+                filename: existingSheet.filename,
+                uploadedAt: existingSheet.uploaded_at
+              },
+              previewInfo: isPreview ? { filename: file.name, sheetName, outcome: 'duplicate' } : undefined
+            });
+            continue;
+          }
+        }
+
+        // Check if this sheet was uploaded before (but with different content). Files uploaded
+        // before multi-sheet import have no sheet name and were read from the first invoice sheet.
+        const existingByName = getFileByFilename(file.name, sheetName)
+          ?? (index === 0 ? getFileByFilename(file.name) : undefined);
+        const diff = existingByName ? compareFileData(existingByName.id, parsedData) : null;
+
+        if (isPreview) {
+          const isDiff = existingByName && diff && diffHasChanges(diff);
+          summary.sheets.push({ sheetName, outcome: 'preview' });
+          responses.push({
+            status: 'preview',
+            sheetName,
+            data: parsedData,
+            diagnostics: parsedData.diagnostics,
+            totalMismatch: getTotalMismatch(parsedData),
+            message: isDiff
+              ? `File ${label} would be compared with the previously uploaded version`
+              : existingByName
+                ? `File ${label} would update the previously uploaded version (no lesson changes)`
+                : `File ${label} would import ${parsedData.records.length} records`,
+            previewInfo: isDiff
+              ? { filename: file.name, sheetName, outcome: 'diff', existingFileId: existingByName.id, diff }
+              : { filename: file.name, sheetName, outcome: 'new' }
+          });
+          continue;
+        }
 
-        if (diff.added.length > 0 || diff.removed.length > 0 || diff.modified.length > 0) {
+        if (existingByName && diff && diffHasChanges(diff)) {
+          // Sheet with same name but different content - queue it for review
+          const reviewId = savePendingReview(file.name, existingByName.id, contentHash, parsedData, getSourceFileId());
+          summary.sheets.push({ sheetName, outcome: 'diff' });
           responses.push({
             status: 'diff',
-            message: `File "${file.name}" has different content than the previously uploaded version`,
+            sheetName,
+            message: `File ${label} has different content than the previously uploaded version`,
+            diagnostics: parsedData.diagnostics,
+            totalMismatch: getTotalMismatch(parsedData),
             diffInfo: {
+              reviewId,
               filename: file.name,
               existingFileId: existingByName.id,
-              diff: {
-                added: diff.added.map(serializeRecord),
-                removed: diff.removed.map(serializeRecord),
-                modified: diff.modified.map(m => ({
-                  old: serializeRecord(m.old),
-                  new: serializeRecord(m.new)
-                })),
-                unchanged: diff.unchanged
-              },
-              newData: serializeData(parsedData)
+              diff,
+              newData: parsedData
             }
           });
           continue;
         }
-      }
 
-      // New file - save to database
-      saveInvoiceData(file.name, contentHash, parsedData);
+        // Same lessons as the previous upload (e.g. only the total or header changed):
+        // update it in place so record ids and kilometers are kept
+        if (existingByName) {
+          replaceFile(existingByName.id, file.name, contentHash, parsedData, getSourceFileId());
+          const duplicateLessons = findDuplicateLessons(existingByName.id).length;
+
+          summary.sheets.push({ sheetName, outcome: 'imported' });
+          responses.push({
+            status: 'success',
+            sheetName,
+            data: parsedData,
+            diagnostics: parsedData.diagnostics,
+            totalMismatch: getTotalMismatch(parsedData),
+            duplicateLessons: duplicateLessons || undefined,
+            message: `File ${label} updated; its lessons are unchanged`
+          });
+          continue;
+        }
+
+        // New invoice - save to database
+        const fileId = saveInvoiceData(file.name, contentHash, parsedData, getSourceFileId());
+        const duplicateLessons = findDuplicateLessons(fileId).length;
+        const unmatchedClients = getUnmatchedClients(fileId).map(client => client.name);
 
-      responses.push({
-        status: 'success',
-        data: serializeData(parsedData),
-        message: `File "${file.name}" uploaded successfully`
-      });
+        summary.sheets.push({ sheetName, outcome: 'imported' });
+        responses.push({
+          status: 'success',
+          sheetName,
+          data: parsedData,
+          diagnostics: parsedData.diagnostics,
+          totalMismatch: getTotalMismatch(parsedData),
+          duplicateLessons: duplicateLessons || undefined,
+          unmatchedClients: unmatchedClients.length > 0 ? unmatchedClients : undefined,
+          message: `File ${label} uploaded successfully using layout "${parsedData.layoutProfile}"`
+        });
+      }
     }
 
     // Log results
@@ -129,7 +328,7 @@ export async function POST(request: NextRequest) {
       message: r.message
     })));
 
-    return NextResponse.json({ results: responses });
+    return NextResponse.json({ results: responses, workbooks });
   } catch (error) {
     console.error('Upload error:', error);
     return NextResponse.json(
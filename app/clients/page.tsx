@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import ClientCard from '@/components/ClientCard';
+import { ClientChangePreview, ClientDetails, ClientSummary, UnmatchedClientName } from '@/lib/database';
+import { loadAddressesFromDb } from '@/lib/addressStorage';
+
+export default function ClientsPage() {
+  const [clients, setClients] = useState<ClientSummary[]>([]);
+  const [unmatched, setUnmatched] = useState<UnmatchedClientName[]>([]);
+  const [newClientName, setNewClientName] = useState('');
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadClients();
+  }, []);
+
+  const loadClients = async () => {
+    try {
+      const response = await fetch('/api/clients');
+      if (!response.ok) {
+        throw new Error('Failed to load clients');
+      }
+      const data = await response.json();
+      setClients(data.clients || []);
+      setUnmatched(data.unmatched || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load clients');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Send a change and reload the clients; returns whether it succeeded
+  const sendChange = async (url: string, init: RequestInit, success: string, failure: string): Promise<boolean> => {
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, init);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || failure);
+      }
+      setMessage(success);
+      await loadClients();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    }
+  };
+
+  const jsonRequest = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const handleCreateClient = async (name: string) => {
+    const created = await sendChange(
+      '/api/clients',
+      jsonRequest('POST', { name }),
+      `Client "${name.trim()}" added`,
+      'Failed to add client'
+    );
+    if (created && name === newClientName) {
+      setNewClientName('');
+    }
+  };
+
+  const handleAddAlias = async (clientId: number, alias: string) => {
+    const client = clients.find(c => c.id === clientId);
+    const added = await sendChange(
+      '/api/clients/aliases',
+      jsonRequest('POST', { clientId, alias }),
+      `"${alias.trim()}" is now linked to ${client?.name || 'the client'}`,
+      'Failed to add alias'
+    );
+    // An address saved under the alias may have moved to the client
+    if (added) await loadAddressesFromDb();
+  };
+
+  const handleRemoveAlias = async (aliasId: number) => {
+    await sendChange(`/api/clients/aliases?id=${aliasId}`, { method: 'DELETE' }, 'Alias removed', 'Failed to remove alias');
+  };
+
+  const handleSave = async (id: number, details: ClientDetails) => {
+    await sendChange('/api/clients', jsonRequest('PUT', { id, ...details }), 'Client saved', 'Failed to save client');
+  };
+
+  const loadPreview = async (url: string): Promise<ClientChangePreview | null> => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to preview the change');
+      }
+      return (await response.json()).preview;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview the change');
+      return null;
+    }
+  };
+
+  const describePreview = (preview: ClientChangePreview): string => {
+    const lines = [
+      `${preview.lessons} ${preview.lessons === 1 ? 'lesson' : 'lessons'} in ${preview.files} ` +
+      `${preview.files === 1 ? 'file' : 'files'} will be rewritten.`
+    ];
+    if (preview.kilometersCleared > 0) {
+      lines.push(`Kilometers of ${preview.kilometersCleared} lessons on the same days will be cleared and calculated again.`);
+    }
+    if (preview.addressDropped) {
+      lines.push(`The address "${preview.addressDropped}" will be dropped; "${preview.address}" is kept.`);
+    }
+    return lines.join('\n');
+  };
+
+  const handleMerge = async (client: ClientSummary, targetId: number) => {
+    const target = clients.find(c => c.id === targetId);
+    if (!target) return;
+    const preview = await loadPreview(`/api/clients/merge?sourceId=${client.id}&targetId=${targetId}`);
+    if (!preview || !confirm(`Merge "${client.name}" into "${target.name}"?\n\n${describePreview(preview)}`)) {
+      return;
+    }
+    const merged = await sendChange(
+      '/api/clients/merge',
+      jsonRequest('POST', { sourceId: client.id, targetId }),
+      `"${client.name}" merged into "${target.name}"`,
+      'Failed to merge clients'
+    );
+    if (merged) await loadAddressesFromDb();
+  };
+
+  const handleRename = async (client: ClientSummary, name: string) => {
+    const preview = await loadPreview(`/api/clients/rename?id=${client.id}`);
+    if (!preview || !confirm(`Rename "${client.name}" to "${name.trim()}"?\n\n${describePreview(preview)}`)) {
+      return;
+    }
+    const renamed = await sendChange(
+      '/api/clients/rename',
+      jsonRequest('POST', { id: client.id, name }),
+      `"${client.name}" renamed to "${name.trim()}"`,
+      'Failed to rename client'
+    );
+    if (renamed) await loadAddressesFromDb();
+  };
+
+  const handleDelete = async (client: ClientSummary) => {
+    if (!confirm(`Delete client "${client.name}"? Their lessons are kept but no longer linked to a client.`)) {
+      return;
+    }
+    await sendChange(`/api/clients?id=${client.id}`, { method: 'DELETE' }, `Client "${client.name}" deleted`, 'Failed to delete client');
+  };
+
+  const searchText = search.trim().toLowerCase();
+  const shownClients = searchText
+    ? clients.filter(client =>
+        client.name.toLowerCase().includes(searchText) ||
+        client.aliases.some(alias => alias.alias.toLowerCase().includes(searchText))
+      )
+    : clients;
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-3xl font-bold text-gray-900">Clients</h1>
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+            >
+              Back to Invoices
+            </Link>
+          </div>
+          <p className="text-sm text-gray-600">
+            Lessons are linked to the client whose name or alias matches their client name, ignoring case and spacing.
+            New names that resemble a known client wait here until you say who they are.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            <p>{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+            <p>{message}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-center text-gray-500">Loading clients...</p>
+        ) : (
+          <>
+            {unmatched.length > 0 && (
+              <div className="mb-8">
+                <h2 className="mb-4 text-xl font-semibold text-gray-900">Names to Match</h2>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-3">
+                  {unmatched.map(name => (
+                    <div key={name.name} className="p-3 border border-yellow-200 bg-yellow-50 rounded-md text-sm">
+                      <p className="font-medium text-gray-900">
+                        {name.name}
+                        <span className="font-normal text-gray-500">
+                          {' '}({name.record_count} {name.record_count === 1 ? 'lesson' : 'lessons'})
+                        </span>
+                      </p>
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        {name.suggestions.map(suggestion => (
+                          <button
+                            key={suggestion.clientId}
+                            onClick={() => handleAddAlias(suggestion.clientId, name.name)}
+                            className="px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+                            title={`Similar to "${suggestion.matchedName}"`}
+                          >
+                            Same as {suggestion.name} ({Math.round(suggestion.score * 100)}%)
+                          </button>
+                        ))}
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && handleAddAlias(Number(e.target.value), name.name)}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">Same as another client...</option>
+                          {clients.map(client => (
+                            <option key={client.id} value={String(client.id)}>{client.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleCreateClient(name.name)}
+                          className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          New Client
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+              <h2 className="text-xl font-semibold text-gray-900">All Clients</h2>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search"
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="text"
+                  value={newClientName}
+                  onChange={(e) => setNewClientName(e.target.value)}
+                  placeholder="New client name"
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  onClick={() => handleCreateClient(newClientName)}
+                  disabled={!newClientName.trim()}
+                  className="px-4 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Add Client
+                </button>
+              </div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-3">
+              {shownClients.length === 0 ? (
+                <p className="text-center text-gray-500">
+                  {clients.length === 0 ? 'No clients yet. They are added as invoices are uploaded.' : 'No clients match.'}
+                </p>
+              ) : (
+                shownClients.map(client => (
+                  <ClientCard
+                    key={`${client.id}-${client.updated_at}`}
+                    client={client}
+                    otherClients={clients.filter(other => other.id !== client.id)}
+                    onSave={handleSave}
+                    onRename={handleRename}
+                    onMerge={handleMerge}
+                    onDelete={handleDelete}
+                    onAddAlias={handleAddAlias}
+                    onRemoveAlias={handleRemoveAlias}
+                  />
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { AuditEntry, UploadedFile } from '@/lib/database';
+
+const PAGE_SIZE = 100;
+
+const actionLabels: { [action: string]: string } = {
+  upload: 'Upload',
+  replace: 'Replace',
+  merge: 'Merge',
+  resolve: 'Review',
+  trash: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Purged',
+  'hide-duplicate': 'Hid duplicate',
+  'show-duplicate': 'Showed duplicate',
+  'delete-record': 'Deleted lesson',
+  'add-lesson': 'Added lesson by hand',
+  'edit-lesson': 'Edited lesson',
+  kilometers: 'Kilometers',
+  address: 'Address',
+  client: 'Client',
+  'merge-clients': 'Merged clients',
+  'rename-client': 'Renamed client',
+  review: 'Review queue',
+  'layout-profile': 'Layout profile',
+  'restore-backup': 'Restored backup',
+  change: 'Outside the app',
+};
+
+const tableLabels: { [table: string]: string } = {
+  uploaded_files: 'File',
+  invoice_records: 'Lesson',
+  addresses: 'Address',
+  clients: 'Client',
+  client_aliases: 'Client alias',
+  pending_reviews: 'Queued review',
+  layout_profiles: 'Layout profile',
+};
+
+type FieldValues = { [field: string]: unknown };
+
+// Spreadsheet fields kept in record_data are shown alongside the row's own columns
+const flattenRow = (json: string | null): FieldValues => {
+  if (!json) return {};
+  const { record_data, ...row } = JSON.parse(json);
+  return { ...row, ...(record_data || {}) };
+};
+
+const formatValue = (value: unknown): string =>
+  value === null || value === undefined || value === '' ? '(empty)' : String(value);
+
+// "field: old → new" for each field that differs between the two versions of a row
+const describeChanges = (entry: AuditEntry): string[] => {
+  const before = flattenRow(entry.before_data);
+  const after = flattenRow(entry.after_data);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  if (entry.change === 'insert') {
+    return fields.map(field => `${field}: ${formatValue(after[field])}`);
+  }
+  if (entry.change === 'delete') {
+    return fields.map(field => `${field}: ${formatValue(before[field])}`);
+  }
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => `${field}: ${formatValue(before[field])} → ${formatValue(after[field])}`);
+};
+
+export default function HistoryPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [files, setFiles] = useState<UploadedFile[]>([]);
+  const [fileId, setFileId] = useState('');
+  const [client, setClient] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFiles = async () => {
+      try {
+        const response = await fetch('/api/invoices/files');
+        if (response.ok) {
+          const data = await response.json();
+          setFiles(data.files || []);
+        }
+      } catch (err) {
+        console.error('Failed to load files:', err);
+      }
+    };
+    loadFiles();
+  }, []);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+        if (fileId) params.set('fileId', fileId);
+        if (client.trim()) params.set('client', client.trim());
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+
+        const response = await fetch(`/api/audit?${params}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load history');
+        }
+        const data = await response.json();
+        setEntries(data.entries || []);
+        setTotal(data.total || 0);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadHistory();
+  }, [fileId, client, from, to, offset]);
+
+  // Changing a filter starts again from the newest changes
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-3xl font-bold text-gray-900">History</h1>
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+            >
+              Back to Invoices
+            </Link>
+          </div>
+          <p className="text-sm text-gray-600">
+            Every change to uploaded files, lessons, kilometers, addresses and clients, with the values before and after.
+          </p>
+        </div>
+
+        <div className="mb-6 flex flex-wrap items-end gap-4">
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1 font-medium">File</span>
+            <select
+              value={fileId}
+              onChange={(e) => updateFilter(setFileId)(e.target.value)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All files</option>
+              {files.map(file => (
+                <option key={file.id} value={String(file.id)}>
+                  {file.filename}{file.sheet_name ? ` / ${file.sheet_name}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1 font-medium">Client</span>
+            <input
+              type="text"
+              value={client}
+              onChange={(e) => updateFilter(setClient)(e.target.value)}
+              placeholder="Client name"
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1 font-medium">Changed from</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1 font-medium">to</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            <p>{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          {isLoading ? (
+            <p className="text-center text-gray-500">Loading history...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-gray-500">No changes found.</p>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['When', 'Action', 'What', 'File', 'Client', 'Changes'].map(label => (
+                        <th
+                          key={label}
+                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        >
+                          {label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {entries.map(entry => (
+                      <tr key={entry.id} className="text-sm text-gray-900 align-top">
+                        <td className="px-4 py-3 whitespace-nowrap">{new Date(`${entry.changed_at.replace(' ', 'T')}Z`).toLocaleString()}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">{actionLabels[entry.action] || entry.action}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {tableLabels[entry.table_name] || entry.table_name} #{entry.row_id} {entry.change}
+                        </td>
+                        <td className="px-4 py-3">
+                          {entry.filename || (entry.file_id !== null ? `#${entry.file_id} (purged)` : '')}
+                        </td>
+                        <td className="px-4 py-3">{entry.client_name || ''}</td>
+                        <td className="px-4 py-3 text-xs text-gray-700">
+                          {describeChanges(entry).map(line => (
+                            <div key={line}>{line}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  {offset + 1}-{offset + entries.length} of {total} changes
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                    disabled={offset === 0}
+                    className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Newer
+                  </button>
+                  <button
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                    disabled={offset + entries.length >= total}
+                    className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Older
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
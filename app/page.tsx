@@ -6,38 +6,79 @@ import FileUpload from '@/components/FileUpload';
 import InvoiceTable from '@/components/InvoiceTable';
 import InvoiceFilters from '@/components/InvoiceFilters';
 import ClientAddressManager from '@/components/ClientAddressManager';
-import { InvoiceRecord, ParsedInvoiceData, FilterState } from '@/lib/invoiceTypes';
+import UploadPreview from '@/components/UploadPreview';
+import UploadedFilesTable from '@/components/UploadedFilesTable';
+import DiffReviewModal from '@/components/DiffReviewModal';
+import ReviewQueue from '@/components/ReviewQueue';
+import DuplicateLessons from '@/components/DuplicateLessons';
+import HoursReport from '@/components/HoursReport';
+import ParseDiagnosticsPanel from '@/components/ParseDiagnosticsPanel';
+import LessonForm from '@/components/LessonForm';
+import {
+  FilterState,
+  LayoutProfile,
+  ParseDiagnostic,
+  UploadDateOverrides
+} from '@/lib/invoiceTypes';
 import { calculateRoutesForInvoices } from '@/lib/routePlanner';
 import { getHomeAddress, getClientAddress, loadAddressesFromDb } from '@/lib/addressStorage';
 import { calculateDistance } from '@/lib/distanceCalculator';
-import { UploadResponse } from './api/upload/route';
-import { DiffResult } from '@/lib/database';
+import { recordClientName } from '@/lib/clientMatching';
+import { isCalendarDate, formatCalendarDate, todayCalendarDate } from '@/lib/calendarDate';
+import { UploadResponse, WorkbookSummary } from './api/upload/route';
+import { ReviewSummary } from './api/reviews/route';
+import {
+  DiffResult,
+  DuplicateLessonGroup,
+  InvoiceFilterOptions,
+  InvoicePage,
+  LessonInput,
+  ListedRecord,
+  RecordResolution,
+  UploadedFile
+} from '@/lib/database';
+import { ReparseResult } from '@/lib/reparse';
 import * as XLSX from 'xlsx';
 
-interface DiffModalState {
-  isOpen: boolean;
+// The queued review open in the diff modal
+interface ActiveReview {
+  id: number;
   filename: string;
-  existingFileId: number;
+  sheetName: string | null;
   diff: DiffResult;
-  newData: ParsedInvoiceData;
 }
 
+const NO_FILTER_OPTIONS: InvoiceFilterOptions = { clientNames: [], firstDate: null, lastDate: null };
+
 export default function Home() {
-  const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
-  const [invoicesWithDistances, setInvoicesWithDistances] = useState<any[]>([]);
-  const [columns, setColumns] = useState<string[]>([]);
-  const [totalAmount, setTotalAmount] = useState<number>(0);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isCalculatingDistances, setIsCalculatingDistances] = useState(false);
   const [showAddressManager, setShowAddressManager] = useState(false);
+  const [tableReloadKey, setTableReloadKey] = useState(0);
+  // The page shown in the table, with the totals of every invoice matching the filters
+  const [tablePage, setTablePage] = useState<InvoicePage | null>(null);
+  const [filterOptions, setFilterOptions] = useState<InvoiceFilterOptions>(NO_FILTER_OPTIONS);
   const [filters, setFilters] = useState<FilterState>({
     lessonDate: null,
     clientName: null,
   });
   const [error, setError] = useState<string | null>(null);
   const [notifications, setNotifications] = useState<string[]>([]);
-  const [diffModal, setDiffModal] = useState<DiffModalState | null>(null);
+  const [reviews, setReviews] = useState<ReviewSummary[]>([]);
+  const [activeReview, setActiveReview] = useState<ActiveReview | null>(null);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateLessonGroup[] | null>(null);
+  const [editingLesson, setEditingLesson] = useState<ListedRecord | 'new' | null>(null);
+  const [layoutProfiles, setLayoutProfiles] = useState<LayoutProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('auto');
+  const [previewBeforeImport, setPreviewBeforeImport] = useState(false);
+  const [uploadPreview, setUploadPreview] = useState<{
+    files: File[];
+    results: UploadResponse[];
+    workbooks: WorkbookSummary[];
+  } | null>(null);
+  const [uploadDiagnostics, setUploadDiagnostics] = useState<{ filename: string; diagnostics: ParseDiagnostic[] }[]>([]);
 
   // Load data from database on mount
   useEffect(() => {
@@ -48,54 +89,73 @@ export default function Home() {
       await loadInvoicesFromDatabase();
     };
     initializeData();
+    loadLayoutProfiles();
+    loadReviews();
   }, []);
 
+  const loadReviews = async (): Promise<ReviewSummary[]> => {
+    try {
+      const response = await fetch('/api/reviews');
+      if (response.ok) {
+        const data = await response.json();
+        setReviews(data.reviews || []);
+        return data.reviews || [];
+      }
+    } catch (err) {
+      console.error('Failed to load reviews:', err);
+    }
+    return [];
+  };
+
+  const loadLayoutProfiles = async () => {
+    try {
+      const response = await fetch('/api/layout-profiles');
+      if (response.ok) {
+        const data = await response.json();
+        setLayoutProfiles(data.profiles || []);
+      }
+    } catch (err) {
+      console.error('Failed to load layout profiles:', err);
+    }
+  };
+
   const loadInvoicesFromDatabase = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch('/api/invoices');
-      if (!response.ok) {
+      const [filesResponse, optionsResponse] = await Promise.all([
+        fetch('/api/invoices/files'),
+        fetch('/api/invoices/options')
+      ]);
+      if (!filesResponse.ok || !optionsResponse.ok) {
         throw new Error('Failed to load invoices');
       }
 
-      const data = await response.json();
-
-      if (data.records && data.records.length > 0) {
-        // Convert date strings back to Date objects
-        const processedRecords = data.records.map((record: InvoiceRecord) => {
-          const processed: InvoiceRecord = {};
-          Object.keys(record).forEach(key => {
-            const value = record[key];
-            if (typeof value === 'string' && value.match(/^\d{4}-\d{2}-\d{2}T/)) {
-              processed[key] = new Date(value);
-            } else {
-              processed[key] = value;
-            }
-          });
-          return processed;
-        });
-
-        setInvoices(processedRecords);
-        setColumns(data.columns || []);
-        setTotalAmount(data.totalAmount || 0);
-
-        // Calculate distances if home address is set
-        const homeAddress = getHomeAddress();
-        if (homeAddress && processedRecords.length > 0) {
+      const { files } = await filesResponse.json();
+      setUploadedFiles(files || []);
+      setFilterOptions(await optionsResponse.json());
+
+      // Calculate distances if home address is set. Only the days with a lesson whose
+      // kilometers aren't worked out yet are loaded; the rest are kept in the database.
+      const homeAddress = getHomeAddress();
+      if (homeAddress) {
+        const response = await fetch('/api/invoices/kilometers');
+        if (!response.ok) {
+          throw new Error('Failed to load lessons without kilometers');
+        }
+        const { records }: { records: ListedRecord[] } = await response.json();
+        if (records.length > 0) {
           setIsCalculatingDistances(true);
           try {
-            const invoicesWithKm = await calculateRoutesForInvoices(processedRecords);
-            setInvoicesWithDistances(invoicesWithKm);
+            await calculateRoutesForInvoices(records);
           } catch (err) {
             console.error('Error calculating distances:', err);
-            setInvoicesWithDistances(processedRecords.map((inv: InvoiceRecord) => ({ ...inv, kilometers: 0 })));
           } finally {
             setIsCalculatingDistances(false);
           }
-        } else {
-          setInvoicesWithDistances(processedRecords.map((inv: InvoiceRecord) => ({ ...inv, kilometers: 0 })));
         }
       }
+      // The table and the hours report load their own data, with the kilometers just saved
+      setTableReloadKey(key => key + 1);
     } catch (err) {
       console.error('Failed to load invoices from database:', err);
       setError('Failed to load saved invoices');
@@ -104,58 +164,158 @@ export default function Home() {
     }
   };
 
+  const postFiles = async (
+    files: File[],
+    preview: boolean,
+    dateOverrides?: UploadDateOverrides
+  ): Promise<{ results: UploadResponse[]; workbooks: WorkbookSummary[] }> => {
+    const formData = new FormData();
+    files.forEach(file => {
+      formData.append('files', file);
+    });
+    formData.append('profileId', selectedProfileId);
+    if (preview) {
+      formData.append('preview', 'true');
+    }
+    if (dateOverrides) {
+      formData.append('dateOverrides', JSON.stringify(dateOverrides));
+    }
+
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to upload files');
+    }
+
+    return await response.json() as { results: UploadResponse[]; workbooks: WorkbookSummary[] };
+  };
+
   const handleFilesSelected = async (files: File[]) => {
     if (files.length === 0) return;
 
+    if (previewBeforeImport) {
+      setIsUploading(true);
+      setError(null);
+      setNotifications([]);
+      try {
+        const { results, workbooks } = await postFiles(files, true);
+        setUploadPreview({ files, results, workbooks });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred while previewing files');
+      } finally {
+        setIsUploading(false);
+      }
+      return;
+    }
+
+    await importFiles(files);
+  };
+
+  // Files are parsed again on confirm; parsing is deterministic so the result matches the preview,
+  // with the dates picked for ambiguous rows applied
+  const handleConfirmPreview = async (dateOverrides: UploadDateOverrides) => {
+    if (!uploadPreview) return;
+    const { files } = uploadPreview;
+    await importFiles(files, dateOverrides);
+    setUploadPreview(null);
+  };
+
+  const importFiles = async (files: File[], dateOverrides?: UploadDateOverrides) => {
     setIsUploading(true);
     setError(null);
     setNotifications([]);
+    setUploadDiagnostics([]);
 
     try {
-      const formData = new FormData();
-      files.forEach(file => {
-        formData.append('files', file);
-      });
-
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to upload files');
-      }
-
-      const { results } = await response.json() as { results: UploadResponse[] };
+      const { results, workbooks } = await postFiles(files, false, dateOverrides);
 
       const newNotifications: string[] = [];
       let hasNewData = false;
+      const reviewIds: number[] = [];
+      let hasDuplicates = false;
+
+      setUploadDiagnostics(
+        results
+          .filter(result => result.diagnostics && result.diagnostics.length > 0)
+          .map(result => ({
+            filename: [result.data?.fileName || result.diffInfo?.filename || '', result.sheetName]
+              .filter(Boolean)
+              .join(' / '),
+            diagnostics: result.diagnostics!
+          }))
+      );
 
       for (const result of results) {
         if (result.status === 'duplicate') {
           newNotifications.push(result.message || 'Duplicate file detected');
         } else if (result.status === 'diff' && result.diffInfo) {
-          // Show diff modal for this file
-          setDiffModal({
-            isOpen: true,
-            filename: result.diffInfo.filename,
-            existingFileId: result.diffInfo.existingFileId,
-            diff: result.diffInfo.diff,
-            newData: result.diffInfo.newData
-          });
+          reviewIds.push(result.diffInfo.reviewId);
         } else if (result.status === 'success') {
           newNotifications.push(result.message || 'File uploaded successfully');
           hasNewData = true;
         }
+
+        if (result.duplicateLessons) {
+          const name = [result.data?.fileName, result.sheetName].filter(Boolean).join(' / ');
+          newNotifications.push(
+            `${result.duplicateLessons} ${result.duplicateLessons === 1 ? 'lesson' : 'lessons'} in "${name}" ` +
+            'also appear in another file and may be counted twice'
+          );
+          hasDuplicates = true;
+        }
+
+        if (result.unmatchedClients) {
+          const name = [result.data?.fileName, result.sheetName].filter(Boolean).join(' / ');
+          newNotifications.push(
+            `Client ${result.unmatchedClients.length === 1 ? 'name' : 'names'} in "${name}" may belong to a ` +
+            `known client: ${result.unmatchedClients.join(', ')}. Match them on the Clients page.`
+          );
+        }
+
+        if (result.totalMismatch) {
+          const { fileTotal, lineItemsTotal, difference } = result.totalMismatch;
+          const name = [result.data?.fileName || result.diffInfo?.filename, result.sheetName].filter(Boolean).join(' / ');
+          newNotifications.push(
+            `File total for "${name}" ($${fileTotal.toFixed(2)}) does not match its line items ` +
+            `($${lineItemsTotal.toFixed(2)}), difference $${difference.toFixed(2)}`
+          );
+        }
+      }
+
+      // Let the user know about sheets that were skipped, e.g. a summary sheet
+      for (const workbook of workbooks) {
+        const ignored = workbook.sheets.filter(sheet => sheet.outcome === 'ignored');
+        if (ignored.length > 0) {
+          newNotifications.push(
+            `Ignored ${ignored.length === 1 ? 'sheet' : 'sheets'} in "${workbook.filename}": ` +
+            ignored.map(sheet => `"${sheet.sheetName}" (${sheet.reason})`).join(', ')
+          );
+        }
+      }
+
+      // Files that differ from their previous upload wait in the review queue;
+      // the first one is opened straight away
+      if (reviewIds.length > 1) {
+        newNotifications.push(`${reviewIds.length} files differ from their previous upload and are waiting for review`);
       }
 
       setNotifications(newNotifications);
+      await loadReviews();
+      if (reviewIds.length > 0) {
+        await openReview(reviewIds[0]);
+      }
 
       // Reload data from database if any new files were added
       if (hasNewData) {
         await loadInvoicesFromDatabase();
       }
+      if (hasDuplicates) {
+        await loadDuplicates();
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while uploading files');
       console.error('Upload error:', err);
@@ -164,25 +324,39 @@ export default function Home() {
     }
   };
 
-  const handleDiffAction = async (action: 'replace' | 'merge' | 'cancel') => {
-    if (!diffModal) return;
+  const openReview = async (id: number) => {
+    try {
+      const response = await fetch(`/api/reviews?id=${id}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load review');
+      }
+      const { review, diff } = await response.json();
+      setActiveReview({ id, filename: review.filename, sheetName: review.sheet_name, diff });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review');
+    }
+  };
 
+  const handleDiffAction = async (action: 'replace' | 'merge' | 'resolve' | 'cancel', resolutions?: RecordResolution[]) => {
+    if (!activeReview) return;
+
+    // Closing the modal leaves the file in the review queue
     if (action === 'cancel') {
-      setDiffModal(null);
+      setActiveReview(null);
       return;
     }
 
     try {
-      const response = await fetch('/api/invoices', {
+      const response = await fetch('/api/reviews', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          id: activeReview.id,
           action,
-          fileId: diffModal.existingFileId,
-          filename: diffModal.filename,
-          newData: diffModal.newData
+          resolutions
         }),
       });
 
@@ -191,22 +365,186 @@ export default function Home() {
         throw new Error(errorData.error || 'Failed to update file');
       }
 
-      setDiffModal(null);
-      setNotifications([`File "${diffModal.filename}" ${action === 'replace' ? 'replaced' : 'merged'} successfully`]);
+      setActiveReview(null);
+      const outcome = action === 'replace' ? 'replaced' : action === 'merge' ? 'merged' : 'updated with your choices';
+      setNotifications([`File "${activeReview.filename}" ${outcome} successfully`]);
+      await loadReviews();
       await loadInvoicesFromDatabase();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update file');
     }
   };
 
+  const handlePostponeReview = async (id: number) => {
+    try {
+      const response = await fetch('/api/reviews', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action: 'postpone' }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to postpone review');
+      }
+      await loadReviews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to postpone review');
+    }
+  };
+
+  const handleDiscardReview = async (id: number) => {
+    if (!confirm('Discard this file? The previously uploaded version is kept unchanged.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/reviews?id=${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to discard review');
+      }
+      await loadReviews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard review');
+    }
+  };
+
+  const loadDuplicates = async () => {
+    try {
+      const response = await fetch('/api/duplicates');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to check for duplicate lessons');
+      }
+      const data = await response.json();
+      setDuplicateGroups(data.groups || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check for duplicate lessons');
+    }
+  };
+
+  // Hide a copy of a lesson (duplicateOf set) or show it again (duplicateOf null)
+  const handleHideDuplicate = async (recordId: number, duplicateOf: number | null) => {
+    try {
+      const response = await fetch('/api/duplicates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recordId, duplicateOf }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update duplicate lesson');
+      }
+      await loadDuplicates();
+      await loadInvoicesFromDatabase();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update duplicate lesson');
+    }
+  };
+
+  const handleDeleteDuplicate = async (recordId: number) => {
+    if (!confirm('Delete this copy of the lesson from its file? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/duplicates?recordId=${recordId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete duplicate lesson');
+      }
+      await loadDuplicates();
+      await loadInvoicesFromDatabase();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete duplicate lesson');
+    }
+  };
+
+  // Add a lesson by hand, or save the changes to the lesson being edited. Errors are
+  // shown in the form, which stays open.
+  const handleSaveLesson = async (input: LessonInput, fileId: number | null) => {
+    const isNew = editingLesson === 'new';
+    const response = await fetch('/api/lessons', {
+      method: isNew ? 'POST' : 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(isNew ? { ...input, fileId } : { ...input, id: editingLesson?._dbId }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save lesson');
+    }
+    setEditingLesson(null);
+    setNotifications([isNew ? `Lesson with ${input.clientName.trim()} added` : 'Lesson saved']);
+    await loadInvoicesFromDatabase();
+  };
+
+  const handleDeleteLesson = async () => {
+    if (!editingLesson || editingLesson === 'new' ||
+        !confirm('Delete this lesson? Its file total becomes the sum of the remaining lessons.')) {
+      return;
+    }
+    const response = await fetch(`/api/lessons?id=${editingLesson._dbId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to delete lesson');
+    }
+    setEditingLesson(null);
+    setNotifications(['Lesson deleted']);
+    await loadInvoicesFromDatabase();
+  };
+
+  // Read one file, or every file, again from its original workbook. Files whose lessons
+  // now read differently wait in the review queue; the first one is opened.
+  const handleReparse = async (file?: UploadedFile) => {
+    try {
+      const response = await fetch('/api/invoices/reparse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileId: file?.id }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to re-parse files');
+      }
+      const { results }: { results: ReparseResult[] } = await response.json();
+
+      const label = (result: ReparseResult) =>
+        result.sheetName ? `"${result.filename}" (sheet "${result.sheetName}")` : `"${result.filename}"`;
+      const unchanged = results.filter(result => result.outcome === 'unchanged');
+      const reviewIds = results.filter(result => result.outcome === 'review').map(result => result.reviewId!);
+      const failed = results.filter(result => result.outcome === 'failed');
+      if (failed.length > 0) {
+        setError(failed.map(result => `Could not re-parse ${label(result)}: ${result.message}`).join('; '));
+      }
+      const newNotifications: string[] = [];
+      if (unchanged.length > 0) {
+        newNotifications.push(unchanged.length === 1
+          ? `Re-parsed ${label(unchanged[0])}; its lessons are unchanged`
+          : `Re-parsed ${unchanged.length} files; their lessons are unchanged`);
+      }
+      if (reviewIds.length > 1) {
+        newNotifications.push(`${reviewIds.length} files read differently now and are waiting for review`);
+      }
+
+      setNotifications(newNotifications);
+      await loadReviews();
+      if (reviewIds.length > 0) {
+        await openReview(reviewIds[0]);
+      }
+      await loadInvoicesFromDatabase();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-parse files');
+    }
+  };
+
   const handleClearData = async () => {
-    if (!confirm('Are you sure you want to clear all invoice data? This cannot be undone.')) {
+    if (!confirm('Move all uploaded files to the trash? They can be restored from the Trash page.')) {
       return;
     }
 
     try {
       // Get all files and delete them
-      const response = await fetch('/api/invoices');
+      const response = await fetch('/api/invoices/files');
       const data = await response.json();
 
       for (const file of data.files || []) {
@@ -217,26 +555,25 @@ export default function Home() {
         });
       }
 
-      setInvoices([]);
-      setInvoicesWithDistances([]);
-      setColumns([]);
-      setTotalAmount(0);
+      setUploadedFiles([]);
+      setFilterOptions(NO_FILTER_OPTIONS);
       setFilters({ lessonDate: null, clientName: null });
-      setNotifications(['All data cleared']);
+      // Queued reviews are removed with their files
+      setReviews([]);
+      setDuplicateGroups(null);
+      setNotifications(['All files moved to the trash']);
     } catch (err) {
       setError('Failed to clear data');
     }
   };
 
-  const formatRecordForDisplay = (record: InvoiceRecord): string => {
-    const date = record['Lesson Date'];
-    const client = record['Client Name'];
-    const dateStr = date instanceof Date ? date.toLocaleDateString() : String(date || 'N/A');
-    return `${dateStr} - ${client || 'Unknown'}`;
-  };
-
-  const handleExportToExcel = () => {
-    const dataToExport = invoicesWithDistances.length > 0 ? invoicesWithDistances : invoices;
+  const handleExportToExcel = async () => {
+    const response = await fetch('/api/invoices?export=true');
+    if (!response.ok) {
+      setError('Failed to load invoices to export');
+      return;
+    }
+    const { records: dataToExport, columns }: { records: ListedRecord[]; columns: string[] } = await response.json();
 
     if (dataToExport.length === 0) {
       setError('No data to export');
@@ -256,9 +593,8 @@ export default function Home() {
       const bDate = b[dateKey];
       if (!aDate) return 1;
       if (!bDate) return -1;
-      const aTime = aDate instanceof Date ? aDate.getTime() : new Date(aDate as string).getTime();
-      const bTime = bDate instanceof Date ? bDate.getTime() : new Date(bDate as string).getTime();
-      return aTime - bTime;
+      // YYYY-MM-DD strings sort chronologically
+      return String(aDate).localeCompare(String(bDate));
     });
 
     // Prepare data for export - convert dates and include kilometers
@@ -268,8 +604,8 @@ export default function Home() {
       // Add all columns
       columns.forEach(col => {
         const value = record[col];
-        if (value instanceof Date) {
-          exportRecord[col] = value.toLocaleDateString('en-AU');
+        if (isCalendarDate(value)) {
+          exportRecord[col] = formatCalendarDate(value, 'en-AU');
         } else {
           exportRecord[col] = value;
         }
@@ -289,7 +625,7 @@ export default function Home() {
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Invoices');
 
     // Generate filename with date
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayCalendarDate();
     const filename = `invoices_export_${today}.xlsx`;
 
     // Download file
@@ -298,28 +634,20 @@ export default function Home() {
     setNotifications([`Exported ${exportData.length} records to ${filename}`]);
   };
 
-  const handleRefreshDistance = async (invoiceIndex: number) => {
-    const invoice = invoicesWithDistances[invoiceIndex];
-    if (!invoice) {
-      return;
-    }
-
+  const handleRefreshDistance = async (invoice: ListedRecord) => {
     const homeAddress = getHomeAddress();
     if (!homeAddress) {
       setError('Home address not set. Please set it in Manage Addresses.');
       return;
     }
 
-    // Find client name from the invoice
-    const clientNameKey = Object.keys(invoice).find(
-      key => key.toLowerCase().includes('client name') || key.toLowerCase().includes('client')
-    );
-    if (!clientNameKey) {
+    // Addresses are kept under the client's canonical name
+    const clientName = recordClientName(invoice);
+    if (!clientName) {
       setError('Could not find client name in invoice');
       return;
     }
 
-    const clientName = String(invoice[clientNameKey] || '').trim();
     const clientAddress = getClientAddress(clientName);
 
     if (!clientAddress) {
@@ -345,28 +673,19 @@ export default function Home() {
 
       const kilometers = Math.round(totalDistance * 10) / 10;
 
-      // Save to database if we have a record ID
-      const dbId = (invoice as any)._dbId;
-      if (dbId && kilometers > 0) {
+      // Save to database; the table loads the page again to show it
+      if (kilometers > 0) {
         try {
           await fetch('/api/invoices/kilometers', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ recordId: dbId, kilometers })
+            body: JSON.stringify({ recordId: invoice._dbId, kilometers })
           });
         } catch (saveErr) {
           console.error('Error saving kilometers to database:', saveErr);
         }
       }
 
-      // Update the invoice with the new distance
-      const updatedInvoices = [...invoicesWithDistances];
-      updatedInvoices[invoiceIndex] = {
-        ...invoice,
-        kilometers
-      };
-      setInvoicesWithDistances(updatedInvoices);
-
       if (totalDistance > 0) {
         setNotifications([`Distance updated for ${clientName}: ${totalDistance.toFixed(1)} km`]);
       } else {
@@ -389,12 +708,32 @@ export default function Home() {
                 Upload multiple Excel invoice spreadsheets and view them combined with filtering options.
               </p>
             </div>
-            <Link
-              href="/settings"
-              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-            >
-              Settings
-            </Link>
+            <div className="flex gap-2">
+              <Link
+                href="/clients"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                Clients
+              </Link>
+              <Link
+                href="/history"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                History
+              </Link>
+              <Link
+                href="/trash"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                Trash
+              </Link>
+              <Link
+                href="/settings"
+                className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Settings
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -421,7 +760,8 @@ export default function Home() {
               <div
                 key={idx}
                 className={`p-4 rounded-lg flex justify-between items-center ${
-                  notification.includes('already uploaded')
+                  notification.includes('already uploaded') || notification.includes('in the trash') ||
+                  notification.includes('does not match')
                     ? 'bg-yellow-50 border border-yellow-200 text-yellow-700'
                     : 'bg-green-50 border border-green-200 text-green-700'
                 }`}
@@ -438,37 +778,90 @@ export default function Home() {
           </div>
         )}
 
+        {uploadDiagnostics.length > 0 && (
+          <div className="mb-6 space-y-2">
+            {uploadDiagnostics.map(({ filename, diagnostics }) => (
+              <ParseDiagnosticsPanel key={filename} filename={filename} diagnostics={diagnostics} />
+            ))}
+          </div>
+        )}
+
         <div className="mb-6">
+          <div className="mb-3 flex items-center gap-3">
+            <label htmlFor="layout-profile" className="text-sm font-medium text-gray-700">
+              Spreadsheet layout
+            </label>
+            <select
+              id="layout-profile"
+              value={selectedProfileId}
+              onChange={(e) => setSelectedProfileId(e.target.value)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="auto">Auto-detect</option>
+              <option value="default">Standard invoice (built-in)</option>
+              {layoutProfiles.map(profile => (
+                <option key={profile.id} value={String(profile.id)}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+            <label className="ml-4 flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={previewBeforeImport}
+                onChange={(e) => setPreviewBeforeImport(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Preview before importing
+            </label>
+          </div>
           <FileUpload onFilesSelected={handleFilesSelected} isUploading={isUploading} />
         </div>
 
+        <ReviewQueue
+          reviews={reviews}
+          onReview={openReview}
+          onPostpone={handlePostponeReview}
+          onDiscard={handleDiscardReview}
+        />
+
         {isLoading ? (
           <div className="text-center py-12 text-gray-500">
             <p>Loading saved invoices...</p>
           </div>
-        ) : invoices.length > 0 ? (
+        ) : uploadedFiles.length > 0 ? (
           <>
             <div className="mb-4 flex justify-between items-center">
               <div>
                 <h2 className="text-xl font-semibold text-gray-900">Invoice Data</h2>
                 <div className="mt-2 p-3 bg-green-50 border border-green-200 rounded-md flex gap-6">
                   <p className="text-xl font-bold text-green-700">
-                    Total Amount: ${totalAmount.toFixed(2)}
+                    Total Amount: ${(tablePage?.totalAmount ?? 0).toFixed(2)}
+                  </p>
+                  <p className="text-xl font-bold text-blue-700">
+                    Total Kilometers: {(tablePage?.totalKilometers ?? 0).toFixed(1)} km
                   </p>
-                  {invoicesWithDistances.length > 0 && (
-                    <p className="text-xl font-bold text-blue-700">
-                      Total Kilometers: {invoicesWithDistances.reduce((sum, inv) => sum + (inv.kilometers || 0), 0).toFixed(1)} km
-                    </p>
-                  )}
                 </div>
               </div>
               <div className="flex gap-2">
+                <button
+                  onClick={() => setEditingLesson('new')}
+                  className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  Add Lesson
+                </button>
                 <button
                   onClick={handleExportToExcel}
                   className="px-4 py-2 text-sm font-medium text-green-700 bg-green-50 border border-green-200 rounded-md hover:bg-green-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
                 >
                   Export to Excel
                 </button>
+                <button
+                  onClick={loadDuplicates}
+                  className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  Check for Duplicates
+                </button>
                 <button
                   onClick={() => setShowAddressManager(true)}
                   className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -485,7 +878,7 @@ export default function Home() {
             </div>
 
             <InvoiceFilters
-              invoices={invoices}
+              options={filterOptions}
               filters={filters}
               onFiltersChange={setFilters}
             />
@@ -497,131 +890,102 @@ export default function Home() {
                 </div>
               )}
               <InvoiceTable
-                invoices={invoicesWithDistances.length > 0 ? invoicesWithDistances : invoices}
-                columns={columns}
                 filters={filters}
-                showKilometers={invoicesWithDistances.length > 0}
+                reloadKey={tableReloadKey}
+                showKilometers
                 onRefreshDistance={handleRefreshDistance}
+                onEdit={setEditingLesson}
+                onLoad={setTablePage}
               />
             </div>
+
+            {duplicateGroups && (
+              <div className="mt-8">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold text-gray-900">Possible Duplicates</h2>
+                  <button
+                    onClick={() => setDuplicateGroups(null)}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Close
+                  </button>
+                </div>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                  <DuplicateLessons
+                    groups={duplicateGroups}
+                    onHide={handleHideDuplicate}
+                    onShow={(recordId) => handleHideDuplicate(recordId, null)}
+                    onDelete={handleDeleteDuplicate}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="mt-8">
+              <h2 className="mb-4 text-xl font-semibold text-gray-900">Teaching Hours</h2>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <HoursReport reloadKey={tableReloadKey} />
+              </div>
+            </div>
+
+            <div className="mt-8">
+              <h2 className="mb-4 text-xl font-semibold text-gray-900">Uploaded Files</h2>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <UploadedFilesTable files={uploadedFiles} onReparse={handleReparse} />
+              </div>
+            </div>
           </>
         ) : (
           <div className="text-center py-12 text-gray-500">
             <p>No invoices loaded. Upload Excel files to get started.</p>
+            <button
+              onClick={() => setEditingLesson('new')}
+              className="mt-4 px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+            >
+              Add a Lesson by Hand
+            </button>
           </div>
         )}
 
         <ClientAddressManager
-          invoices={invoices}
+          clientNames={filterOptions.clientNames}
           isOpen={showAddressManager}
           onClose={() => setShowAddressManager(false)}
         />
 
-        {/* Diff Modal */}
-        {diffModal?.isOpen && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
-              <div className="p-6 border-b border-gray-200">
-                <h2 className="text-xl font-semibold text-gray-900">
-                  File Changes Detected
-                </h2>
-                <p className="mt-1 text-sm text-gray-600">
-                  The file "{diffModal.filename}" has different content than the previously uploaded version.
-                </p>
-              </div>
+        {uploadPreview && (
+          <UploadPreview
+            results={uploadPreview.results}
+            workbooks={uploadPreview.workbooks}
+            isUploading={isUploading}
+            onConfirm={handleConfirmPreview}
+            onCancel={() => setUploadPreview(null)}
+          />
+        )}
 
-              <div className="p-6 overflow-y-auto max-h-[50vh]">
-                <div className="space-y-4">
-                  {diffModal.diff.added.length > 0 && (
-                    <div>
-                      <h3 className="font-medium text-green-700 mb-2">
-                        New Records ({diffModal.diff.added.length})
-                      </h3>
-                      <ul className="text-sm text-gray-600 space-y-1 pl-4">
-                        {diffModal.diff.added.slice(0, 5).map((record, idx) => (
-                          <li key={idx} className="text-green-600">
-                            + {formatRecordForDisplay(record)}
-                          </li>
-                        ))}
-                        {diffModal.diff.added.length > 5 && (
-                          <li className="text-gray-500">
-                            ... and {diffModal.diff.added.length - 5} more
-                          </li>
-                        )}
-                      </ul>
-                    </div>
-                  )}
-
-                  {diffModal.diff.removed.length > 0 && (
-                    <div>
-                      <h3 className="font-medium text-red-700 mb-2">
-                        Removed Records ({diffModal.diff.removed.length})
-                      </h3>
-                      <ul className="text-sm text-gray-600 space-y-1 pl-4">
-                        {diffModal.diff.removed.slice(0, 5).map((record, idx) => (
-                          <li key={idx} className="text-red-600">
-                            - {formatRecordForDisplay(record)}
-                          </li>
-                        ))}
-                        {diffModal.diff.removed.length > 5 && (
-                          <li className="text-gray-500">
-                            ... and {diffModal.diff.removed.length - 5} more
-                          </li>
-                        )}
-                      </ul>
-                    </div>
-                  )}
-
-                  {diffModal.diff.modified.length > 0 && (
-                    <div>
-                      <h3 className="font-medium text-yellow-700 mb-2">
-                        Modified Records ({diffModal.diff.modified.length})
-                      </h3>
-                      <ul className="text-sm text-gray-600 space-y-1 pl-4">
-                        {diffModal.diff.modified.slice(0, 5).map((mod, idx) => (
-                          <li key={idx} className="text-yellow-600">
-                            ~ {formatRecordForDisplay(mod.new)}
-                          </li>
-                        ))}
-                        {diffModal.diff.modified.length > 5 && (
-                          <li className="text-gray-500">
-                            ... and {diffModal.diff.modified.length - 5} more
-                          </li>
-                        )}
-                      </ul>
-                    </div>
-                  )}
-
-                  {diffModal.diff.unchanged > 0 && (
-                    <p className="text-sm text-gray-500">
-                      {diffModal.diff.unchanged} records unchanged
-                    </p>
-                  )}
-                </div>
-              </div>
+        {editingLesson && (
+          <LessonForm
+            lesson={editingLesson === 'new' ? null : editingLesson}
+            files={uploadedFiles}
+            clientNames={filterOptions.clientNames}
+            onSave={handleSaveLesson}
+            onDelete={editingLesson === 'new' ? undefined : handleDeleteLesson}
+            onCancel={() => setEditingLesson(null)}
+          />
+        )}
 
-              <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
-                <button
-                  onClick={() => handleDiffAction('cancel')}
-                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={() => handleDiffAction('merge')}
-                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
-                >
-                  Merge (Add New Only)
-                </button>
-                <button
-                  onClick={() => handleDiffAction('replace')}
-                  className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700"
-                >
-                  Replace All
-                </button>
-              </div>
-            </div>
-          </div>
+        {/* Diff Modal */}
+        {activeReview && (
+          <DiffReviewModal
+            key={activeReview.id}
+            filename={activeReview.filename}
+            sheetName={activeReview.sheetName ?? undefined}
+            diff={activeReview.diff}
+            onResolve={(resolutions) => handleDiffAction('resolve', resolutions)}
+            onReplace={() => handleDiffAction('replace')}
+            onMerge={() => handleDiffAction('merge')}
+            onCancel={() => handleDiffAction('cancel')}
+          />
         )}
       </div>
     </main>
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { getHomeAddress, setHomeAddress } from '@/lib/addressStorage';
 import { getOrsApiKey, setOrsApiKey } from '@/lib/distanceCalculator';
+import LayoutProfileManager from '@/components/LayoutProfileManager';
+import BackupManager from '@/components/BackupManager';
 import Link from 'next/link';
 
 export default function SettingsPage() {
@@ -150,6 +152,24 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Spreadsheet Layout Profiles</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Describe where the header, lesson dates, client names, amounts and file total live in each invoice template.
+            Uploads use the first profile whose header row is found, or the profile chosen on the upload page.
+          </p>
+          <LayoutProfileManager />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Backup &amp; Restore</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Download everything in one file: uploaded invoices and their records, kilometers, addresses,
+            layout profiles, history and your API key. Restore it here after moving to another machine.
+          </p>
+          <BackupManager />
+        </div>
+
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Client Addresses</h2>
           <p className="text-sm text-gray-600 mb-4">
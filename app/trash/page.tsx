@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { TrashedFile } from '@/lib/database';
+
+export default function TrashPage() {
+  const [files, setFiles] = useState<TrashedFile[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const loadTrash = async () => {
+    try {
+      const response = await fetch('/api/trash');
+      if (!response.ok) {
+        throw new Error('Failed to load trash');
+      }
+      const data = await response.json();
+      setFiles(data.files || []);
+      setRetentionDays(data.retentionDays);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (file: TrashedFile) => {
+    setError(null);
+    try {
+      const response = await fetch('/api/trash', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileId: file.id }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to restore file');
+      }
+      setMessage(`File "${file.filename}" restored`);
+      await loadTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore file');
+    }
+  };
+
+  const handlePurge = async (file: TrashedFile | null) => {
+    const question = file
+      ? `Permanently delete "${file.filename}" and its records? This cannot be undone.`
+      : 'Permanently delete every file in the trash? This cannot be undone.';
+    if (!confirm(question)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(file ? `/api/trash?fileId=${file.id}` : '/api/trash?all=true', {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete file');
+      }
+      setMessage(file ? `File "${file.filename}" permanently deleted` : 'Trash emptied');
+      await loadTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete file');
+    }
+  };
+
+  return (
+    <main className="min-h-screen p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+            >
+              Back to Invoices
+            </Link>
+          </div>
+          {retentionDays !== null && (
+            <p className="text-sm text-gray-600">
+              Deleted files can be restored with their records and kilometers for {retentionDays} days,
+              after which they are removed for good.
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            <p>{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+            <p>{message}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          {isLoading ? (
+            <p className="text-center text-gray-500">Loading trash...</p>
+          ) : files.length === 0 ? (
+            <p className="text-center text-gray-500">The trash is empty.</p>
+          ) : (
+            <>
+              <div className="mb-4 flex justify-end">
+                <button
+                  onClick={() => handlePurge(null)}
+                  className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+                >
+                  Empty Trash
+                </button>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['File', 'Records', 'Total', 'Deleted', ''].map(label => (
+                      <th
+                        key={label}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {files.map(file => (
+                    <tr key={file.id} className="text-sm text-gray-900">
+                      <td className="px-4 py-3">
+                        {file.filename}
+                        {file.sheet_name && <span className="text-gray-500"> / {file.sheet_name}</span>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">{file.record_count}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">${file.total_amount.toFixed(2)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">{new Date(file.deleted_at!).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleRestore(file)}
+                            className="px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+                          >
+                            Restore
+                          </button>
+                          <button
+                            onClick={() => handlePurge(file)}
+                            className="px-3 py-1 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+                          >
+                            Delete Forever
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
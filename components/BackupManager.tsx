@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { loadAddressesFromDb } from '@/lib/addressStorage';
+import { BackupArchive, RestoreMode, RestoreResult } from '@/lib/backup';
+
+const describeResult = (result: RestoreResult): string => {
+  if (result.mode === 'replace') {
+    return `Restored ${result.summary.files} files with ${result.summary.records} records. ` +
+      `The previous data was kept as ${result.previousDatabase}.`;
+  }
+  const merged = result.merged!;
+  return `Added ${merged.filesAdded} files, ${merged.clientsAdded} clients, ${merged.layoutProfilesAdded} layout profiles and ` +
+    `${merged.addressesAdded} addresses; ${merged.filesSkipped} files were already here.`;
+};
+
+export default function BackupManager() {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/backup');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create backup');
+      }
+      const blob = await response.blob();
+      const archive: BackupArchive = JSON.parse(await blob.text());
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoice-tracker-backup-${archive.createdAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage(`Backup of ${archive.summary.files} files and ${archive.summary.records} records downloaded.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (file: File) => {
+    if (mode === 'replace' && !confirm('Replace all current data with this backup?')) {
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      let archive: BackupArchive;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Not a backup file');
+      }
+
+      const response = await fetch('/api/backup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archive, mode }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to restore backup');
+      }
+      const result: RestoreResult = await response.json();
+
+      await loadAddressesFromDb();
+      setMessage(describeResult(result));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm text-gray-600 mb-3">
+          A backup holds all files, lessons, clients, addresses and layout profiles. The OpenRouteService API key
+          is not included; enter it again after restoring in another browser.
+        </p>
+        <button
+          onClick={handleDownload}
+          disabled={isWorking}
+          className="px-6 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          Download Backup
+        </button>
+      </div>
+
+      <div className="pt-4 border-t border-gray-200">
+        <p className="text-sm font-medium text-gray-700 mb-2">Restore from a backup</p>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={mode === 'merge'}
+              onChange={() => setMode('merge')}
+            />
+            Add what is missing to the current data
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+            />
+            Replace all current data
+          </label>
+        </div>
+        <input
+          type="file"
+          accept=".json,application/json"
+          disabled={isWorking}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleRestore(file);
+          }}
+          className="mt-3 block text-sm text-gray-700"
+        />
+      </div>
+
+      {isWorking && <p className="text-sm text-gray-600">Working...</p>}
+      {message && <p className="text-sm text-green-600 font-medium">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -8,39 +8,17 @@ import {
   getClientAddress 
 } from '@/lib/addressStorage';
 import { AddressMapping } from '@/types/addressTypes';
-import { InvoiceRecord } from '@/lib/invoiceTypes';
 
 interface ClientAddressManagerProps {
-  invoices: InvoiceRecord[];
+  clientNames: string[]; // Clients with lessons, under the canonical name of linked clients
   isOpen: boolean;
   onClose: () => void;
 }
 
-export default function ClientAddressManager({ invoices, isOpen, onClose }: ClientAddressManagerProps) {
+export default function ClientAddressManager({ clientNames, isOpen, onClose }: ClientAddressManagerProps) {
   const [addresses, setAddresses] = useState<AddressMapping>({});
   const [saved, setSaved] = useState(false);
 
-  // Get unique client names from invoices
-  const getUniqueClients = (): string[] => {
-    const clientNameKey = invoices.length > 0
-      ? Object.keys(invoices[0]).find(
-          key => key.toLowerCase().includes('client name') || key.toLowerCase().includes('client')
-        )
-      : null;
-    
-    if (!clientNameKey) return [];
-    
-    const clients = new Set<string>();
-    invoices.forEach(invoice => {
-      const clientName = String(invoice[clientNameKey] || '').trim();
-      if (clientName) {
-        clients.add(clientName);
-      }
-    });
-    
-    return Array.from(clients).sort();
-  };
-
   useEffect(() => {
     if (isOpen) {
       const savedAddresses = getClientAddresses();
@@ -61,8 +39,6 @@ export default function ClientAddressManager({ invoices, isOpen, onClose }: Clie
     setTimeout(() => setSaved(false), 3000);
   };
 
-  const uniqueClients = getUniqueClients();
-
   if (!isOpen) return null;
 
   return (
@@ -83,11 +59,11 @@ export default function ClientAddressManager({ invoices, isOpen, onClose }: Clie
             Enter addresses for each client. These addresses will be used to calculate driving distances.
           </p>
           
-          {uniqueClients.length === 0 ? (
+          {clientNames.length === 0 ? (
             <p className="text-gray-500 text-center py-8">No clients found. Upload invoice files first.</p>
           ) : (
             <div className="space-y-4">
-              {uniqueClients.map(clientName => (
+              {clientNames.map(clientName => (
                 <div key={clientName} className="border border-gray-200 rounded-lg p-4">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     {clientName}
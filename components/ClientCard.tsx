@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { ClientDetails, ClientSummary } from '@/lib/database';
+
+interface ClientCardProps {
+  client: ClientSummary;
+  otherClients: ClientSummary[]; // Clients this one can be merged into
+  onSave: (id: number, details: ClientDetails) => Promise<void>;
+  onRename: (client: ClientSummary, name: string) => Promise<void>;
+  onMerge: (client: ClientSummary, targetId: number) => void;
+  onDelete: (client: ClientSummary) => void;
+  onAddAlias: (clientId: number, alias: string) => Promise<void>;
+  onRemoveAlias: (aliasId: number) => void;
+}
+
+export default function ClientCard({
+  client,
+  otherClients,
+  onSave,
+  onRename,
+  onMerge,
+  onDelete,
+  onAddAlias,
+  onRemoveAlias
+}: ClientCardProps) {
+  const [details, setDetails] = useState<ClientDetails>({
+    email: client.email,
+    phone: client.phone,
+    notes: client.notes,
+  });
+  const [newAlias, setNewAlias] = useState('');
+  const [newName, setNewName] = useState<string | null>(null); // Set while renaming
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isChanged = details.email !== client.email || details.phone !== client.phone || details.notes !== client.notes;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(client.id, details);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddAlias = async () => {
+    if (!newAlias.trim()) return;
+    await onAddAlias(client.id, newAlias);
+    setNewAlias('');
+  };
+
+  const handleRename = async () => {
+    if (!newName || !newName.trim()) return;
+    await onRename(client, newName);
+    setNewName(null);
+  };
+
+  const inputClass = 'w-full px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-md">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          {newName === null ? (
+            <p className="font-medium text-gray-900">{client.name}</p>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); }}
+                autoFocus
+                className="px-2 py-0.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                onClick={handleRename}
+                disabled={!newName.trim()}
+                className="px-3 py-0.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => setNewName(null)}
+                className="px-3 py-0.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+          <p className="text-sm text-gray-500">
+            {client.record_count} {client.record_count === 1 ? 'lesson' : 'lessons'}
+            {client.address && ` - ${client.address}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {newName === null && (
+            <button
+              onClick={() => setNewName(client.name)}
+              className="px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+            >
+              Rename
+            </button>
+          )}
+          {otherClients.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && onMerge(client, Number(e.target.value))}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Merge into...</option>
+              {otherClients.map(other => (
+                <option key={other.id} value={String(other.id)}>{other.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => onDelete(client)}
+            className="px-3 py-1 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-700">Also written as:</span>
+        {client.aliases.length === 0 && <span className="text-gray-400">no other spellings</span>}
+        {client.aliases.map(alias => (
+          <span key={alias.id} className="inline-flex items-center gap-1 px-2 py-0.5 bg-gray-100 rounded-md text-gray-700">
+            {alias.alias}
+            <button
+              onClick={() => onRemoveAlias(alias.id)}
+              className="text-gray-400 hover:text-gray-700"
+              title="Remove alias"
+            >
+              &times;
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={newAlias}
+          onChange={(e) => setNewAlias(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAddAlias(); }}
+          placeholder="Add a spelling"
+          className="px-2 py-0.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Email</span>
+          <input
+            type="email"
+            value={details.email || ''}
+            onChange={(e) => setDetails({ ...details, email: e.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Phone</span>
+          <input
+            type="tel"
+            value={details.phone || ''}
+            onChange={(e) => setDetails({ ...details, phone: e.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Notes</span>
+          <input
+            type="text"
+            value={details.notes || ''}
+            onChange={(e) => setDetails({ ...details, notes: e.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {isChanged && (
+        <div className="mt-3 flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { InvoiceRecord } from '@/lib/invoiceTypes';
+import { DiffResult, RecordChoice, RecordResolution } from '@/lib/database';
+import { isCalendarDate, formatCalendarDate } from '@/lib/calendarDate';
+import { isAppField } from '@/lib/recordColumns';
+
+interface DiffReviewModalProps {
+  filename: string;
+  sheetName?: string;
+  diff: DiffResult;
+  onResolve: (resolutions: RecordResolution[]) => void;
+  onReplace: () => void;
+  onMerge: () => void;
+  onCancel: () => void;
+}
+
+type EntryKind = 'added' | 'removed' | 'modified';
+
+interface DiffEntry {
+  id: string;
+  kind: EntryKind;
+  oldRecord: InvoiceRecord | null;
+  newRecord: InvoiceRecord | null;
+}
+
+interface EntryChoice {
+  choice: RecordChoice;
+  fields: { [field: string]: 'old' | 'new' };
+}
+
+// Choices offered for each kind of entry. Removed records are kept unless deleted on purpose.
+const choiceOptions: Record<EntryKind, { choice: RecordChoice; label: string }[]> = {
+  added: [
+    { choice: 'take', label: 'Add' },
+    { choice: 'drop', label: 'Skip' },
+  ],
+  removed: [
+    { choice: 'keep', label: 'Keep' },
+    { choice: 'drop', label: 'Delete' },
+  ],
+  modified: [
+    { choice: 'keep', label: 'Keep old' },
+    { choice: 'take', label: 'Take new' },
+    { choice: 'drop', label: 'Delete' },
+  ],
+};
+
+const defaultChoices: Record<EntryKind, RecordChoice> = {
+  added: 'take',
+  removed: 'keep',
+  modified: 'take',
+};
+
+// Lessons added or changed by hand are kept unless the new version is taken on purpose
+const byHandLabels: { [source: string]: string } = {
+  manual: 'added by hand',
+  edited: 'edited by hand',
+};
+
+const defaultChoice = (entry: DiffEntry): RecordChoice =>
+  entry.oldRecord && byHandLabels[String(entry.oldRecord._source)] ? 'keep' : defaultChoices[entry.kind];
+
+const sectionStyles: Record<EntryKind, { title: string; className: string }> = {
+  added: { title: 'New Records', className: 'text-green-700' },
+  removed: { title: 'Removed Records', className: 'text-red-700' },
+  modified: { title: 'Modified Records', className: 'text-yellow-700' },
+};
+
+const describeRecord = (record: InvoiceRecord): string => {
+  const date = record['Lesson Date'];
+  const dateStr = isCalendarDate(date) ? formatCalendarDate(date) : String(date || 'N/A');
+  const time = record.startTime ? ` ${record.startTime}` : '';
+  return `${dateStr}${time} - ${record['Client Name'] || 'Unknown'}`;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  return isCalendarDate(value) ? formatCalendarDate(value) : String(value);
+};
+
+// Fields whose value differs between the old and new version of a record
+const changedFields = (oldRecord: InvoiceRecord, newRecord: InvoiceRecord): string[] => {
+  const keys = new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)]);
+  return Array.from(keys).filter(key => !isAppField(key) && (oldRecord[key] ?? null) !== (newRecord[key] ?? null));
+};
+
+export default function DiffReviewModal({
+  filename,
+  sheetName,
+  diff,
+  onResolve,
+  onReplace,
+  onMerge,
+  onCancel
+}: DiffReviewModalProps) {
+  const entries = useMemo<DiffEntry[]>(() => [
+    ...diff.added.map(record => ({ id: `new-${record._newIndex}`, kind: 'added' as const, oldRecord: null, newRecord: record })),
+    ...diff.removed.map(record => ({ id: `old-${record._dbId}`, kind: 'removed' as const, oldRecord: record, newRecord: null })),
+    ...diff.modified.map(pair => ({ id: `old-${pair.old._dbId}`, kind: 'modified' as const, oldRecord: pair.old, newRecord: pair.new })),
+  ], [diff]);
+
+  const [choices, setChoices] = useState<{ [entryId: string]: EntryChoice }>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const getChoice = (entry: DiffEntry): EntryChoice =>
+    choices[entry.id] || { choice: defaultChoice(entry), fields: {} };
+
+  const setChoice = (entry: DiffEntry, choice: RecordChoice) => {
+    setChoices(prev => ({ ...prev, [entry.id]: { choice, fields: {} } }));
+  };
+
+  // Picking a value for one field switches the record to a field-by-field choice
+  const setFieldChoice = (entry: DiffEntry, field: string, source: 'old' | 'new') => {
+    const current = getChoice(entry);
+    const base: 'old' | 'new' = current.choice === 'keep' ? 'old' : 'new';
+    const fields = current.choice === 'combine' ? current.fields : Object.fromEntries(
+      changedFields(entry.oldRecord!, entry.newRecord!).map(key => [key, base])
+    );
+    setChoices(prev => ({ ...prev, [entry.id]: { choice: 'combine', fields: { ...fields, [field]: source } } }));
+  };
+
+  const handleApply = () => {
+    const resolutions: RecordResolution[] = entries.map(entry => {
+      const { choice, fields } = getChoice(entry);
+      return {
+        existingId: entry.oldRecord ? (entry.oldRecord._dbId as number) : null,
+        newIndex: entry.newRecord ? (entry.newRecord._newIndex as number) : null,
+        choice,
+        fields: choice === 'combine' ? fields : undefined,
+      };
+    });
+    onResolve(resolutions);
+  };
+
+  const renderFieldTable = (entry: DiffEntry) => {
+    const { choice, fields } = getChoice(entry);
+    const sourceOf = (field: string): 'old' | 'new' =>
+      choice === 'combine' ? fields[field] || 'new' : choice === 'keep' ? 'old' : 'new';
+
+    return (
+      <table className="mt-2 w-full text-xs border border-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-2 py-1 text-left font-medium text-gray-500">Field</th>
+            <th className="px-2 py-1 text-left font-medium text-gray-500">Old</th>
+            <th className="px-2 py-1 text-left font-medium text-gray-500">New</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {changedFields(entry.oldRecord!, entry.newRecord!).map(field => (
+            <tr key={field}>
+              <td className="px-2 py-1 font-medium text-gray-700">{field}</td>
+              {(['old', 'new'] as const).map(source => {
+                const record = source === 'old' ? entry.oldRecord! : entry.newRecord!;
+                const isChosen = sourceOf(field) === source;
+                return (
+                  <td key={source} className="px-2 py-1">
+                    <button
+                      onClick={() => setFieldChoice(entry, field, source)}
+                      disabled={choice === 'drop'}
+                      className={`px-2 py-0.5 rounded border ${
+                        isChosen
+                          ? 'border-blue-500 bg-blue-50 text-blue-800'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {formatValue(record[field])}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            File Changes Detected
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            The file &quot;{filename}&quot;{sheetName && <> (sheet &quot;{sheetName}&quot;)</>} has
+            different content than the previously uploaded version. Choose what to do with each
+            record, or replace or merge the whole file. Replacing keeps lessons added or edited by hand.
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          <div className="space-y-6">
+            {diff.duplicateKeys.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                <p className="font-medium">
+                  {diff.duplicateKeys.length} lesson key(s) are shared by more than one lesson.
+                  These lessons are paired in row order, so check them before applying:
+                </p>
+                <ul className="mt-1 pl-4 list-disc">
+                  {diff.duplicateKeys.slice(0, 5).map(key => (
+                    <li key={key}>{key}</li>
+                  ))}
+                  {diff.duplicateKeys.length > 5 && (
+                    <li>... and {diff.duplicateKeys.length - 5} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            {(['added', 'removed', 'modified'] as const).map(kind => {
+              const sectionEntries = entries.filter(entry => entry.kind === kind);
+              if (sectionEntries.length === 0) return null;
+              return (
+                <div key={kind}>
+                  <h3 className={`font-medium mb-2 ${sectionStyles[kind].className}`}>
+                    {sectionStyles[kind].title} ({sectionEntries.length})
+                  </h3>
+                  <ul className="space-y-2">
+                    {sectionEntries.map(entry => {
+                      const { choice } = getChoice(entry);
+                      const record = (entry.newRecord || entry.oldRecord)!;
+                      const byHand = entry.oldRecord ? byHandLabels[String(entry.oldRecord._source)] : undefined;
+                      return (
+                        <li key={entry.id} className="p-2 border border-gray-200 rounded-md text-sm">
+                          <div className="flex items-center justify-between gap-4">
+                            <span className="text-gray-800">
+                              {describeRecord(record)}
+                              {byHand && (
+                                <span className="ml-2 px-2 py-0.5 text-xs text-gray-600 bg-gray-100 rounded-md">{byHand}</span>
+                              )}
+                            </span>
+                            <div className="flex gap-1">
+                              {choiceOptions[kind].map(option => (
+                                <button
+                                  key={option.choice}
+                                  onClick={() => setChoice(entry, option.choice)}
+                                  className={`px-2 py-1 text-xs font-medium rounded-md border ${
+                                    choice === option.choice
+                                      ? 'text-white bg-blue-600 border-blue-600'
+                                      : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
+                              {kind === 'modified' && (
+                                <button
+                                  onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                                  className={`px-2 py-1 text-xs font-medium rounded-md border ${
+                                    choice === 'combine'
+                                      ? 'text-white bg-blue-600 border-blue-600'
+                                      : 'text-blue-700 bg-blue-50 border-blue-200 hover:bg-blue-100'
+                                  }`}
+                                >
+                                  {choice === 'combine' ? 'Field by field' : 'Choose fields'}
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          {kind === 'modified' && expanded === entry.id && renderFieldTable(entry)}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })}
+
+            {diff.unchanged > 0 && (
+              <p className="text-sm text-gray-500">
+                {diff.unchanged} records unchanged
+              </p>
+            )}
+            {diff.keptByHand > 0 && (
+              <p className="text-sm text-gray-500">
+                {diff.keptByHand} lessons added by hand are not in this file and are kept
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onMerge}
+            className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+          >
+            Merge (Add New Only)
+          </button>
+          <button
+            onClick={onReplace}
+            className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700"
+          >
+            Replace All
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Apply Choices
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { DuplicateLessonCopy, DuplicateLessonGroup } from '@/lib/database';
+import { formatCalendarDate } from '@/lib/calendarDate';
+
+interface DuplicateLessonsProps {
+  groups: DuplicateLessonGroup[];
+  onHide: (recordId: number, duplicateOf: number) => void;
+  onShow: (recordId: number) => void;
+  onDelete: (recordId: number) => void;
+}
+
+// A visible copy in another file that the given copy can be hidden behind
+const findOriginal = (group: DuplicateLessonGroup, copy: DuplicateLessonCopy): DuplicateLessonCopy | undefined =>
+  group.copies.find(other => other.fileId !== copy.fileId && other.duplicateOf === null);
+
+export default function DuplicateLessons({ groups, onHide, onShow, onDelete }: DuplicateLessonsProps) {
+  if (groups.length === 0) {
+    return <p className="text-sm text-gray-500">No lesson appears in more than one file.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {groups.map(group => (
+        <div
+          key={group.copies.map(copy => copy.recordId).join('-')}
+          className="p-3 border border-gray-200 rounded-md text-sm"
+        >
+          <p className="font-medium text-gray-900">
+            {formatCalendarDate(group.lessonDate)}
+            {group.startTime && ` ${group.startTime}`} - {group.clientName}
+            {group.amount !== null && ` - $${group.amount.toFixed(2)}`}
+          </p>
+          <ul className="mt-2 space-y-1">
+            {group.copies.map(copy => {
+              const original = findOriginal(group, copy);
+              return (
+                <li key={copy.recordId} className="flex items-center justify-between gap-4">
+                  <span className={copy.duplicateOf !== null ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                    {copy.filename}
+                    {copy.sheetName && ` / ${copy.sheetName}`}
+                    {copy.duplicateOf !== null && ' (hidden)'}
+                  </span>
+                  <div className="flex gap-2">
+                    {copy.duplicateOf !== null ? (
+                      <button
+                        onClick={() => onShow(copy.recordId)}
+                        className="px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+                      >
+                        Show
+                      </button>
+                    ) : original && (
+                      <button
+                        onClick={() => onHide(copy.recordId, original.recordId)}
+                        className="px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+                      >
+                        Hide
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onDelete(copy.recordId)}
+                      className="px-2 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
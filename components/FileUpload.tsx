@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useRef, DragEvent } from 'react';
+import { SUPPORTED_SPREADSHEET_EXTENSIONS, isSupportedSpreadsheet } from '@/lib/spreadsheetReader';
 
 interface FileUploadProps {
   onFilesSelected: (files: File[]) => void;
@@ -34,7 +35,7 @@ export default function FileUpload({ onFilesSelected, isUploading }: FileUploadP
     setIsDragging(false);
 
     const files = Array.from(e.dataTransfer.files).filter(
-      file => file.name.endsWith('.xlsx') || file.name.endsWith('.xls')
+      file => isSupportedSpreadsheet(file.name)
     );
 
     if (files.length > 0) {
@@ -44,7 +45,7 @@ export default function FileUpload({ onFilesSelected, isUploading }: FileUploadP
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []).filter(
-      file => file.name.endsWith('.xlsx') || file.name.endsWith('.xls')
+      file => isSupportedSpreadsheet(file.name)
     );
 
     console.log('File input changed, files selected:', files.length);
@@ -53,7 +54,7 @@ export default function FileUpload({ onFilesSelected, isUploading }: FileUploadP
       console.log('Calling onFilesSelected with', files.length, 'files');
       onFilesSelected(files);
     } else {
-      console.warn('No valid Excel files selected');
+      console.warn('No supported spreadsheet files selected');
     }
     
     // Reset the input so the same file can be selected again
@@ -85,7 +86,7 @@ export default function FileUpload({ onFilesSelected, isUploading }: FileUploadP
       <input
         ref={fileInputRef}
         type="file"
-        accept=".xlsx,.xls"
+        accept={SUPPORTED_SPREADSHEET_EXTENSIONS.join(',')}
         multiple
         onChange={handleFileInput}
         className="hidden"
@@ -112,7 +113,7 @@ export default function FileUpload({ onFilesSelected, isUploading }: FileUploadP
             <p className="text-sm text-gray-600">
               <span className="font-semibold text-blue-600">Click to upload</span> or drag and drop
             </p>
-            <p className="text-xs text-gray-500">Excel files (.xlsx, .xls)</p>
+            <p className="text-xs text-gray-500">Spreadsheets ({SUPPORTED_SPREADSHEET_EXTENSIONS.join(', ')})</p>
           </>
         )}
       </div>
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { HoursGrouping, HoursReport as HoursReportData } from '@/lib/hoursReport';
+import { formatCalendarDate } from '@/lib/calendarDate';
+
+interface HoursReportProps {
+  reloadKey?: number; // Changed by the parent to load the report again after the data changed
+}
+
+const groupings: { key: HoursGrouping; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'client', label: 'Client' },
+];
+
+const formatHours = (minutes: number): string => (minutes / 60).toFixed(2);
+
+export default function HoursReport({ reloadKey = 0 }: HoursReportProps) {
+  const [grouping, setGrouping] = useState<HoursGrouping>('week');
+  const [report, setReport] = useState<HoursReportData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // A report that arrives after the grouping changed again is ignored
+    let isCurrent = true;
+    const loadReport = async () => {
+      try {
+        const response = await fetch(`/api/invoices/hours?grouping=${grouping}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load hours report');
+        }
+        const data: HoursReportData = await response.json();
+        if (isCurrent) {
+          setReport(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : 'Failed to load hours report');
+        }
+      }
+    };
+    loadReport();
+    return () => {
+      isCurrent = false;
+    };
+  }, [grouping, reloadKey]);
+
+  const formatKey = (key: string): string => {
+    if (grouping === 'day') return formatCalendarDate(key);
+    if (grouping === 'week') return `Week of ${formatCalendarDate(key)}`;
+    return key;
+  };
+
+  if (error) {
+    return <div className="text-center py-8 text-red-600">{error}</div>;
+  }
+
+  if (!report) {
+    return <div className="text-center py-8 text-gray-500">Loading hours...</div>;
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <div className="flex gap-2">
+          {groupings.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setGrouping(key)}
+              className={`px-4 py-2 text-sm font-medium border rounded-md ${
+                grouping === key
+                  ? 'text-white bg-blue-600 border-blue-600'
+                  : 'text-blue-700 bg-blue-50 border-blue-200 hover:bg-blue-100'
+              }`}
+            >
+              By {label}
+            </button>
+          ))}
+        </div>
+        {report.totals.untimedLessons > 0 && (
+          <span className="text-sm text-yellow-700">
+            {report.totals.untimedLessons} of {report.totals.lessons} lessons have no start/end time or duration
+            and are not counted in the hours
+          </span>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {[groupings.find(g => g.key === grouping)!.label, 'Lessons', 'Hours', 'Amount'].map(label => (
+                <th
+                  key={label}
+                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-blue-50"
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {report.rows.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-4 text-center text-gray-500">
+                  No lessons with a lesson date.
+                </td>
+              </tr>
+            ) : (
+              report.rows.map(row => (
+                <tr key={row.key} className="text-sm text-gray-900 hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap">{formatKey(row.key)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">{row.lessons}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatHours(row.minutes)}
+                    {row.untimedLessons > 0 && (
+                      <span className="ml-2 text-yellow-700" title="Lessons without a duration">
+                        ({row.untimedLessons} untimed)
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">${row.amount.toFixed(2)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr className="text-sm font-semibold text-gray-900">
+              <td className="px-4 py-3">Total</td>
+              <td className="px-4 py-3">{report.totals.lessons}</td>
+              <td className="px-4 py-3">{formatHours(report.totals.minutes)}</td>
+              <td className="px-4 py-3">${report.totals.amount.toFixed(2)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
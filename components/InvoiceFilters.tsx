@@ -1,31 +1,18 @@
 'use client';
 
 import { FilterState } from '@/lib/invoiceTypes';
-import { InvoiceRecord } from '@/lib/invoiceTypes';
+import { InvoiceFilterOptions } from '@/lib/database';
 
 interface InvoiceFiltersProps {
-  invoices: InvoiceRecord[];
+  options: InvoiceFilterOptions;
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
 }
 
-export default function InvoiceFilters({ invoices, filters, onFiltersChange }: InvoiceFiltersProps) {
-  // Get unique client names from invoices
-  const uniqueClientNames = Array.from(
-    new Set(
-      invoices
-        .map(inv => {
-          const clientNameKey = Object.keys(inv).find(
-            key => key.toLowerCase().includes('client name') || key.toLowerCase().includes('client')
-          );
-          return clientNameKey ? String(inv[clientNameKey] || '') : '';
-        })
-        .filter(name => name.trim() !== '')
-    )
-  ).sort();
-
+export default function InvoiceFilters({ options, filters, onFiltersChange }: InvoiceFiltersProps) {
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const dateValue = e.target.value ? new Date(e.target.value) : null;
+    // The date input's value is already a YYYY-MM-DD calendar date
+    const dateValue = e.target.value || null;
     onFiltersChange({ ...filters, lessonDate: dateValue });
   };
 
@@ -50,7 +37,9 @@ export default function InvoiceFilters({ invoices, filters, onFiltersChange }: I
           <input
             id="lesson-date"
             type="date"
-            value={filters.lessonDate ? filters.lessonDate.toISOString().split('T')[0] : ''}
+            value={filters.lessonDate || ''}
+            min={options.firstDate || undefined}
+            max={options.lastDate || undefined}
             onChange={handleDateChange}
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           />
@@ -67,7 +56,7 @@ export default function InvoiceFilters({ invoices, filters, onFiltersChange }: I
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">All Clients</option>
-            {uniqueClientNames.map(name => (
+            {options.clientNames.map(name => (
               <option key={name} value={name}>
                 {name}
               </option>
@@ -1,167 +1,174 @@
 'use client';
 
-import { InvoiceRecord, FilterState } from '@/lib/invoiceTypes';
-import { useState, useMemo } from 'react';
+import { FilterState } from '@/lib/invoiceTypes';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { isCalendarDate, formatCalendarDate } from '@/lib/calendarDate';
+import { findAmountColumn } from '@/lib/invoiceColumns';
+import { InvoicePage, InvoiceSortKey, ListedRecord } from '@/lib/database';
+
+const PAGE_SIZE = 50;
 
 interface InvoiceTableProps {
-  invoices: InvoiceRecord[];
-  columns: string[];
   filters: FilterState;
+  reloadKey?: number; // Changed by the parent to load the page again after the data changed
   showKilometers?: boolean;
-  onRefreshDistance?: (invoiceIndex: number) => Promise<void>;
+  onRefreshDistance?: (invoice: ListedRecord) => Promise<void>;
+  onEdit?: (invoice: ListedRecord) => void;
+  onLoad?: (page: InvoicePage) => void; // Called with each page loaded, e.g. for its totals
 }
 
-export default function InvoiceTable({ invoices, columns, filters, showKilometers = false, onRefreshDistance }: InvoiceTableProps) {
-  const [sortColumn, setSortColumn] = useState<string | null>(null);
+const sourceLabels: { [source: string]: string } = {
+  manual: 'Added by hand',
+  edited: 'Edited',
+};
+
+// The server sorts by lesson date, client, amount or kilometers; other columns can't be sorted
+const sortKeyFor = (column: string, amountColumn: string | null): InvoiceSortKey | null => {
+  const lower = column.toLowerCase();
+  if (column === 'Kilometers') return 'kilometers';
+  if (column === amountColumn) return 'amount';
+  if (lower.includes('client')) return 'client';
+  if (lower.includes('date') && !lower.includes('time')) return 'date';
+  return null;
+};
+
+export default function InvoiceTable({
+  filters,
+  reloadKey = 0,
+  showKilometers = false,
+  onRefreshDistance,
+  onEdit,
+  onLoad
+}: InvoiceTableProps) {
+  const [data, setData] = useState<InvoicePage | null>(null);
+  // The page is kept with the filters it was chosen for, so new filters start again from
+  // the first page without loading the old page first
+  const [pageOfFilters, setPageOfFilters] = useState({ filters, page: 1 });
+  const page = pageOfFilters.filters === filters ? pageOfFilters.page : 1;
+  const setPage = (newPage: number) => setPageOfFilters({ filters, page: newPage });
+  const [sortKey, setSortKey] = useState<InvoiceSortKey>('date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-  const [refreshingIndex, setRefreshingIndex] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshingId, setRefreshingId] = useState<number | null>(null);
+  const latestRequest = useRef(0);
+
+  const loadPage = useCallback(async () => {
+    // Only the most recent request is shown when the filters change while a page is loading
+    const request = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        sort: sortKey,
+        order: sortDirection,
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+      });
+      if (filters.lessonDate) {
+        params.set('from', filters.lessonDate);
+        params.set('to', filters.lessonDate);
+      }
+      if (filters.clientName) {
+        params.append('client', filters.clientName);
+      }
+
+      const response = await fetch(`/api/invoices?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load invoices');
+      }
+      const pageData: InvoicePage = await response.json();
+      if (request === latestRequest.current) {
+        setData(pageData);
+        onLoad?.(pageData);
+      }
+    } catch (err) {
+      if (request === latestRequest.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load invoices');
+      }
+    } finally {
+      if (request === latestRequest.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [filters, sortKey, sortDirection, page, onLoad]);
 
-  const handleRefreshClick = async (index: number) => {
-    if (refreshingIndex !== null || index === -1) {
+  useEffect(() => {
+    loadPage();
+  }, [loadPage, reloadKey]);
+
+  const handleRefreshClick = async (invoice: ListedRecord) => {
+    if (refreshingId !== null) {
       return;
     }
-    setRefreshingIndex(index);
+    setRefreshingId(invoice._dbId);
     try {
-      await onRefreshDistance?.(index);
+      await onRefreshDistance?.(invoice);
+      await loadPage();
     } finally {
-      setRefreshingIndex(null);
+      setRefreshingId(null);
     }
   };
 
-  // Filter to only show Lesson Date and Client Name columns, plus Kilometers if enabled
+  const columns = data?.columns;
+  const amountColumn = useMemo(() => findAmountColumn(columns || []), [columns]);
+
+  // Filter to only show Lesson Date, Client Name and Amount columns, plus Kilometers if enabled
   const displayColumns = useMemo(() => {
-    const filtered = columns.filter(col => {
+    const filtered = (columns || []).filter(col => {
       const lower = col.toLowerCase();
       return lower.includes('lesson date') ||
              (lower.includes('date') && !lower.includes('time')) ||
              lower.includes('client name') ||
-             lower.includes('client');
+             lower.includes('client') ||
+             col === amountColumn;
     });
     // Add Kilometers column if enabled
     if (showKilometers) {
       filtered.push('Kilometers');
+    }
+    if (showKilometers || onEdit) {
       filtered.push('Actions');
     }
     return filtered;
-  }, [columns, showKilometers]);
-
-  // Filter invoices based on filters
-  const filteredInvoices = useMemo(() => {
-    return invoices.filter(invoice => {
-      // Filter by Lesson Date
-      if (filters.lessonDate) {
-        const lessonDateKey = Object.keys(invoice).find(
-          key => key.toLowerCase().includes('lesson date') || key.toLowerCase().includes('date')
-        );
-        if (lessonDateKey) {
-          const invoiceDate = invoice[lessonDateKey];
-          if (invoiceDate) {
-            const date = invoiceDate instanceof Date 
-              ? invoiceDate 
-              : new Date(invoiceDate as string);
-            const filterDate = filters.lessonDate;
-            
-            // Compare dates (ignoring time)
-            const invoiceDateOnly = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-            const filterDateOnly = new Date(filterDate.getFullYear(), filterDate.getMonth(), filterDate.getDate());
-            
-            if (invoiceDateOnly.getTime() !== filterDateOnly.getTime()) {
-              return false;
-            }
-          } else {
-            return false;
-          }
-        }
-      }
-
-      // Filter by Client Name
-      if (filters.clientName) {
-        const clientNameKey = Object.keys(invoice).find(
-          key => key.toLowerCase().includes('client name') || key.toLowerCase().includes('client')
-        );
-        if (clientNameKey) {
-          const invoiceClientName = String(invoice[clientNameKey] || '').trim();
-          if (invoiceClientName !== filters.clientName) {
-            return false;
-          }
-        } else {
-          return false;
-        }
-      }
-
-      return true;
-    });
-  }, [invoices, filters]);
-
-  // Sort invoices
-  const sortedInvoices = useMemo(() => {
-    if (!sortColumn) return filteredInvoices;
+  }, [columns, amountColumn, showKilometers, onEdit]);
 
-    return [...filteredInvoices].sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
-
-      // Handle special Kilometers column
-      if (sortColumn === 'Kilometers') {
-        // Treat null/undefined as 0, ensure numeric comparison
-        const aRaw = (a as any).kilometers;
-        const bRaw = (b as any).kilometers;
-        aValue = typeof aRaw === 'number' ? aRaw : parseFloat(aRaw) || 0;
-        bValue = typeof bRaw === 'number' ? bRaw : parseFloat(bRaw) || 0;
-
-        return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-      }
-
-      aValue = a[sortColumn];
-      bValue = b[sortColumn];
-
-      // Handle null/undefined values
-      if (aValue === null || aValue === undefined) return 1;
-      if (bValue === null || bValue === undefined) return -1;
-
-      // Handle dates
-      if (aValue instanceof Date || bValue instanceof Date) {
-        const aDate = aValue instanceof Date ? aValue : new Date(aValue as string);
-        const bDate = bValue instanceof Date ? bValue : new Date(bValue as string);
-        const comparison = aDate.getTime() - bDate.getTime();
-        return sortDirection === 'asc' ? comparison : -comparison;
-      }
-
-      // Handle numbers
-      if (typeof aValue === 'number' && typeof bValue === 'number') {
-        return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-      }
-
-      // Handle strings
-      const aStr = String(aValue).toLowerCase();
-      const bStr = String(bValue).toLowerCase();
-      const comparison = aStr.localeCompare(bStr);
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
-  }, [filteredInvoices, sortColumn, sortDirection]);
-
-  const handleSort = (column: string) => {
-    if (sortColumn === column) {
+  const handleSort = (key: InvoiceSortKey) => {
+    if (sortKey === key) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
-      setSortColumn(column);
+      setSortKey(key);
       setSortDirection('asc');
     }
+    setPage(1);
   };
 
   const formatValue = (value: any): string => {
     if (value === null || value === undefined) return '';
-    if (value instanceof Date) {
-      return value.toLocaleDateString();
-    }
-    if (typeof value === 'string' && value.match(/^\d{4}-\d{2}-\d{2}T/)) {
-      // ISO date string
-      return new Date(value).toLocaleDateString();
+    if (isCalendarDate(value)) {
+      return formatCalendarDate(value);
     }
     return String(value);
   };
 
-  if (displayColumns.length === 0) {
+  if (error) {
+    return (
+      <div className="text-center py-8 text-red-600">
+        {error}
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        Loading invoices...
+      </div>
+    );
+  }
+
+  if (displayColumns.length === 0 && data.total === 0 && !filters.lessonDate && !filters.clientName) {
     return (
       <div className="text-center py-8 text-gray-500">
         No data to display. Please upload Excel files.
@@ -169,88 +176,108 @@ export default function InvoiceTable({ invoices, columns, filters, showKilometer
     );
   }
 
+  const firstShown = data.total === 0 ? 0 : (data.page - 1) * data.pageSize + 1;
+  const lastShown = (data.page - 1) * data.pageSize + data.records.length;
+
   return (
     <div className="overflow-x-auto">
-      <div className="mb-4 text-sm text-gray-600">
-        Showing {sortedInvoices.length} of {invoices.length} invoices
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+        <span>
+          Showing {firstShown}-{lastShown} of {data.total} invoices
+          {isLoading && ' (loading...)'}
+        </span>
       </div>
       <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
         <thead className="bg-gray-50">
           <tr>
-            {displayColumns.map(column => (
-              <th
-                key={column}
-                onClick={column !== 'Actions' ? () => handleSort(column) : undefined}
-                className={`px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-blue-50 ${
-                  column !== 'Actions' ? 'cursor-pointer hover:bg-gray-100' : ''
-                }`}
-              >
-                <div className="flex items-center gap-2">
-                  {column}
-                  {sortColumn === column && (
-                    <span className="text-blue-600">
-                      {sortDirection === 'asc' ? '↑' : '↓'}
-                    </span>
-                  )}
-                </div>
-              </th>
-            ))}
+            {displayColumns.map(column => {
+              const key = sortKeyFor(column, amountColumn);
+              return (
+                <th
+                  key={column}
+                  onClick={key ? () => handleSort(key) : undefined}
+                  className={`px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-blue-50 ${
+                    key ? 'cursor-pointer hover:bg-gray-100' : ''
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    {column}
+                    {key && sortKey === key && (
+                      <span className="text-blue-600">
+                        {sortDirection === 'asc' ? '↑' : '↓'}
+                      </span>
+                    )}
+                  </div>
+                </th>
+              );
+            })}
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
-          {sortedInvoices.length === 0 ? (
+          {data.records.length === 0 ? (
             <tr>
               <td colSpan={displayColumns.length} className="px-6 py-4 text-center text-gray-500">
                 No invoices match the current filters.
               </td>
             </tr>
           ) : (
-            sortedInvoices.map((invoice, index) => {
-              // Find the original index in the full invoices array using _dbId or object reference
-              const dbId = (invoice as any)._dbId;
-              const originalIndex = dbId
-                ? invoices.findIndex(inv => (inv as any)._dbId === dbId)
-                : invoices.findIndex(inv => inv === invoice);
+            data.records.map(invoice => {
               return (
-                <tr key={index} className="hover:bg-gray-50">
+                <tr key={invoice._dbId} className="hover:bg-gray-50">
                   {displayColumns.map(column => {
                     // Handle Actions column
                     if (column === 'Actions') {
-                      const isRefreshing = refreshingIndex === originalIndex;
+                      const isRefreshing = refreshingId === invoice._dbId;
+                      const sourceLabel = sourceLabels[String(invoice._source)];
                       return (
                         <td
                           key={column}
                           className="px-6 py-4 whitespace-nowrap text-sm"
                         >
-                          <button
-                            onClick={() => handleRefreshClick(originalIndex)}
-                            disabled={refreshingIndex !== null}
-                            className={`p-1 rounded ${
-                              isRefreshing
-                                ? 'text-blue-400 cursor-wait'
-                                : refreshingIndex !== null
-                                ? 'text-gray-400 cursor-not-allowed'
-                                : 'text-blue-600 hover:text-blue-800 hover:bg-blue-50'
-                            }`}
-                            title={isRefreshing ? 'Refreshing...' : 'Refresh distance'}
-                          >
-                            <svg
-                              xmlns="http://www.w3.org/2000/svg"
-                              className={`h-5 w-5 ${isRefreshing ? 'animate-spin' : ''}`}
-                              fill="none"
-                              viewBox="0 0 24 24"
-                              stroke="currentColor"
-                            >
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                            </svg>
-                          </button>
+                          <div className="flex items-center gap-2">
+                            {showKilometers && (
+                              <button
+                                onClick={() => handleRefreshClick(invoice)}
+                                disabled={refreshingId !== null}
+                                className={`p-1 rounded ${
+                                  isRefreshing
+                                    ? 'text-blue-400 cursor-wait'
+                                    : refreshingId !== null
+                                    ? 'text-gray-400 cursor-not-allowed'
+                                    : 'text-blue-600 hover:text-blue-800 hover:bg-blue-50'
+                                }`}
+                                title={isRefreshing ? 'Refreshing...' : 'Refresh distance'}
+                              >
+                                <svg
+                                  xmlns="http://www.w3.org/2000/svg"
+                                  className={`h-5 w-5 ${isRefreshing ? 'animate-spin' : ''}`}
+                                  fill="none"
+                                  viewBox="0 0 24 24"
+                                  stroke="currentColor"
+                                >
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                </svg>
+                              </button>
+                            )}
+                            {onEdit && (
+                              <button
+                                onClick={() => onEdit(invoice)}
+                                className="px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+                              >
+                                Edit
+                              </button>
+                            )}
+                            {sourceLabel && (
+                              <span className="px-2 py-0.5 text-xs text-gray-600 bg-gray-100 rounded-md">{sourceLabel}</span>
+                            )}
+                          </div>
                         </td>
                       );
                     }
 
-                    // Handle Kilometers column specially
+                    // Handle Kilometers column specially; distances are read from the database
                     if (column === 'Kilometers') {
-                      const kilometers = (invoice as any).kilometers;
+                      const kilometers = invoice.kilometers;
                       return (
                         <td
                           key={column}
@@ -307,6 +334,27 @@ export default function InvoiceTable({ invoices, columns, filters, showKilometer
           )}
         </tbody>
       </table>
+      {data.total > data.pageSize && (
+        <div className="mt-4 flex items-center justify-end gap-2 text-sm text-gray-600">
+          <span>
+            Page {data.page} of {Math.ceil(data.total / data.pageSize)}
+          </span>
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || isLoading}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={lastShown >= data.total || isLoading}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LayoutProfile, DateLocale, RecordIdentity } from '@/lib/invoiceTypes';
+
+interface ProfileFormState {
+  id?: number;
+  name: string;
+  headerRow: string;
+  headerSearchStart: string;
+  headerSearchEnd: string;
+  headerKeywords: string;
+  dateColumn: string;
+  dateLocale: DateLocale;
+  clientColumn: string;
+  amountColumn: string;
+  bookingIdColumn: string;
+  recordIdentity: RecordIdentity;
+  totalCells: string;
+  skipRows: string;
+  skipRowKeywords: string;
+  invoiceNumberCell: string;
+  issueDateCell: string;
+  billingPeriodStartCell: string;
+  billingPeriodEndCell: string;
+  billToCell: string;
+}
+
+function toFormState(profile: LayoutProfile): ProfileFormState {
+  return {
+    id: profile.id,
+    name: profile.name,
+    headerRow: profile.headerRow !== null ? String(profile.headerRow) : '',
+    headerSearchStart: String(profile.headerSearchStart),
+    headerSearchEnd: String(profile.headerSearchEnd),
+    headerKeywords: profile.headerKeywords.join(', '),
+    dateColumn: profile.dateColumn,
+    dateLocale: profile.dateLocale,
+    clientColumn: profile.clientColumn || '',
+    amountColumn: profile.amountColumn || '',
+    bookingIdColumn: profile.bookingIdColumn || '',
+    recordIdentity: profile.recordIdentity,
+    totalCells: profile.totalCells.join(', '),
+    skipRows: profile.skipRows.join(', '),
+    skipRowKeywords: profile.skipRowKeywords.join(', '),
+    invoiceNumberCell: profile.invoiceNumberCell || '',
+    issueDateCell: profile.issueDateCell || '',
+    billingPeriodStartCell: profile.billingPeriodStartCell || '',
+    billingPeriodEndCell: profile.billingPeriodEndCell || '',
+    billToCell: profile.billToCell || '',
+  };
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+export default function LayoutProfileManager() {
+  const [profiles, setProfiles] = useState<LayoutProfile[]>([]);
+  const [defaultProfile, setDefaultProfile] = useState<LayoutProfile | null>(null);
+  const [form, setForm] = useState<ProfileFormState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = async () => {
+    try {
+      const response = await fetch('/api/layout-profiles');
+      const data = await response.json();
+      setProfiles(data.profiles || []);
+      setDefaultProfile(data.defaultProfile || null);
+    } catch (err) {
+      console.error('Error loading layout profiles:', err);
+      setError('Failed to load layout profiles');
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const handleNew = () => {
+    if (!defaultProfile) return;
+    // Start from the built-in layout so only the differences need editing
+    setForm({ ...toFormState(defaultProfile), id: undefined, name: '' });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setError(null);
+
+    try {
+      const response = await fetch('/api/layout-profiles', {
+        method: form.id !== undefined ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save layout profile');
+      }
+
+      setForm(null);
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save layout profile');
+    }
+  };
+
+  const handleDelete = async (profile: LayoutProfile) => {
+    if (!confirm(`Delete layout profile "${profile.name}"?`)) {
+      return;
+    }
+
+    try {
+      await fetch(`/api/layout-profiles?id=${profile.id}`, { method: 'DELETE' });
+      await loadProfiles();
+    } catch (err) {
+      setError('Failed to delete layout profile');
+    }
+  };
+
+  const updateField = (field: keyof ProfileFormState, value: string) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const renderField = (field: keyof ProfileFormState, label: string, placeholder?: string) => (
+    <div>
+      <label htmlFor={`profile-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        id={`profile-${field}`}
+        type="text"
+        value={String(form?.[field] ?? '')}
+        onChange={(e) => updateField(field, e.target.value)}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {defaultProfile && (
+          <li className="p-3 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{defaultProfile.name}</p>
+              <p className="text-xs text-gray-500">Used when no saved profile matches. Read-only.</p>
+            </div>
+          </li>
+        )}
+        {profiles.map(profile => (
+          <li key={profile.id} className="p-3 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{profile.name}</p>
+              <p className="text-xs text-gray-500">
+                Header row {profile.headerRow ?? `${profile.headerSearchStart}-${profile.headerSearchEnd}`},
+                {profile.dateLocale} dates in column {profile.dateColumn},
+                total in {profile.totalCells.join(' / ') || 'none'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => { setForm(toFormState(profile)); setError(null); }}
+                className="px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(profile)}
+                className="px-3 py-1 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {form ? (
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          {renderField('name', 'Profile name', 'e.g., Term 2 invoice template')}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderField('headerRow', 'Header row', 'e.g., 10')}
+            {renderField('headerSearchStart', 'Search header from row')}
+            {renderField('headerSearchEnd', 'Search header to row')}
+          </div>
+          {renderField('headerKeywords', 'Header keywords (comma-separated)', 'lesson date, client name')}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderField('dateColumn', 'Date column', 'A')}
+            {renderField('clientColumn', 'Client column', 'e.g., B')}
+            {renderField('amountColumn', 'Amount column', 'e.g., H')}
+          </div>
+          <div>
+            <label htmlFor="profile-dateLocale" className="block text-sm font-medium text-gray-700 mb-1">
+              Date format
+            </label>
+            <select
+              id="profile-dateLocale"
+              value={form.dateLocale}
+              onChange={(e) => updateField('dateLocale', e.target.value)}
+              className={inputClassName}
+            >
+              <option value="day-first">Day first (31/12/2024)</option>
+              <option value="month-first">Month first (12/31/2024)</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              ISO dates (2024-12-31) and month names (31 Dec 2024) are read in either format.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label htmlFor="profile-recordIdentity" className="block text-sm font-medium text-gray-700 mb-1">
+                Match lessons by
+              </label>
+              <select
+                id="profile-recordIdentity"
+                value={form.recordIdentity}
+                onChange={(e) => updateField('recordIdentity', e.target.value)}
+                className={inputClassName}
+              >
+                <option value="auto">Automatic (booking ID, else date, client and start time)</option>
+                <option value="date-client">Date and client</option>
+                <option value="date-client-time">Date, client and start time</option>
+                <option value="booking-id">Booking ID</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Used to pair lessons when a file is uploaded again. Lessons that can&apos;t be told apart are flagged.
+              </p>
+            </div>
+            {renderField('bookingIdColumn', 'Booking ID column', 'e.g., C')}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderField('totalCells', 'Total cell(s)', 'J2, J3')}
+            {renderField('skipRows', 'Rows to skip', 'e.g., 11, 12')}
+            {renderField('skipRowKeywords', 'Skip rows containing', 'total')}
+          </div>
+          <p className="text-sm text-gray-600">
+            Invoice details cells. Leave blank to find the value next to a label such as
+            &quot;Invoice No&quot;, &quot;Invoice Date&quot;, &quot;Billing Period&quot; or &quot;Bill To&quot;.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderField('invoiceNumberCell', 'Invoice number cell', 'e.g., B2')}
+            {renderField('issueDateCell', 'Issue date cell', 'e.g., B3')}
+            {renderField('billToCell', 'Bill to cell', 'e.g., A5')}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderField('billingPeriodStartCell', 'Billing period start cell', 'e.g., B4')}
+            {renderField('billingPeriodEndCell', 'Billing period end cell', 'e.g., D4')}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Save Profile
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleNew}
+          className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+        >
+          Add Layout Profile
+        </button>
+      )}
+    </div>
+  );
+}
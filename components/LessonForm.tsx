@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { InvoiceRecord } from '@/lib/invoiceTypes';
+import { LessonInput, UploadedFile } from '@/lib/database';
+import { getPromotedColumns, isAppField } from '@/lib/recordColumns';
+import { parseCurrencyValue } from '@/lib/invoiceColumns';
+import { recordClientName } from '@/lib/clientMatching';
+import { isCalendarDate, todayCalendarDate } from '@/lib/calendarDate';
+
+interface LessonFormProps {
+  lesson: InvoiceRecord | null; // null to add a new lesson
+  files: UploadedFile[]; // Files a new lesson can be added to
+  clientNames: string[]; // Suggested while typing the client
+  onSave: (input: LessonInput, fileId: number | null) => Promise<void>;
+  onDelete?: () => Promise<void>;
+  onCancel: () => void;
+}
+
+// The form's fields as typed; numbers are read when the lesson is saved
+interface LessonFields {
+  lessonDate: string;
+  clientName: string;
+  amount: string;
+  startTime: string;
+  durationMinutes: string;
+}
+
+const fieldsFromLesson = (lesson: InvoiceRecord | null): LessonFields => {
+  if (!lesson) {
+    return { lessonDate: todayCalendarDate(), clientName: '', amount: '', startTime: '', durationMinutes: '' };
+  }
+  const promoted = getPromotedColumns(Object.keys(lesson).filter(key => !isAppField(key)));
+  const date = promoted.date ? lesson[promoted.date] : null;
+  const amount = promoted.amount ? lesson[promoted.amount] : null;
+  return {
+    lessonDate: isCalendarDate(date) ? date : '',
+    clientName: promoted.client ? String(lesson[promoted.client] ?? '') : recordClientName(lesson),
+    amount: amount === null || amount === undefined || amount === '' ? '' : String(parseCurrencyValue(amount)),
+    startTime: typeof lesson.startTime === 'string' ? lesson.startTime : '',
+    durationMinutes: typeof lesson.durationMinutes === 'number' ? String(lesson.durationMinutes) : '',
+  };
+};
+
+export default function LessonForm({ lesson, files, clientNames, onSave, onDelete, onCancel }: LessonFormProps) {
+  const [fields, setFields] = useState<LessonFields>(() => fieldsFromLesson(lesson));
+  const [fileId, setFileId] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (field: keyof LessonFields, value: string) => {
+    setFields(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Run a save or delete, keeping the form open with the error if it fails
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save lesson');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const amount = fields.amount.trim() === '' ? null : Number(fields.amount);
+    const durationMinutes = fields.durationMinutes.trim() === '' ? null : Number(fields.durationMinutes);
+    if (amount !== null && isNaN(amount)) {
+      setError('Amount must be a number');
+      return;
+    }
+    if (durationMinutes !== null && isNaN(durationMinutes)) {
+      setError('Duration must be a number of minutes');
+      return;
+    }
+    run(() => onSave({
+      lessonDate: fields.lessonDate,
+      clientName: fields.clientName,
+      amount,
+      startTime: fields.startTime || null,
+      durationMinutes,
+    }, fileId ? Number(fileId) : null));
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+  const source = lesson?._source;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">{lesson ? 'Edit Lesson' : 'Add Lesson'}</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            {lesson
+              ? source === 'manual'
+                ? 'This lesson was added by hand.'
+                : 'Once edited, a new upload of this lesson\'s file won\'t overwrite it unless you choose to in the review.'
+              : 'Lessons added by hand are kept when their file is uploaded again.'}
+          </p>
+        </div>
+
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Lesson date</span>
+            <input
+              type="date"
+              value={fields.lessonDate}
+              onChange={(e) => setField('lessonDate', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Client</span>
+            <input
+              type="text"
+              list="lesson-client-names"
+              value={fields.clientName}
+              onChange={(e) => setField('clientName', e.target.value)}
+              className={inputClass}
+            />
+            <datalist id="lesson-client-names">
+              {clientNames.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Amount ($)</span>
+            <input
+              type="number"
+              step="0.01"
+              value={fields.amount}
+              onChange={(e) => setField('amount', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Start time</span>
+            <input
+              type="time"
+              value={fields.startTime}
+              onChange={(e) => setField('startTime', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Duration (minutes)</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={fields.durationMinutes}
+              onChange={(e) => setField('durationMinutes', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          {!lesson && (
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Add to</span>
+              <select
+                value={fileId}
+                onChange={(e) => setFileId(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Manual entries</option>
+                {files.map(file => (
+                  <option key={file.id} value={String(file.id)}>
+                    {file.filename}{file.sheet_name ? ` (${file.sheet_name})` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {error && <p className="px-6 pb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-between gap-3">
+          <div>
+            {onDelete && (
+              <button
+                onClick={() => run(onDelete)}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !fields.lessonDate || !fields.clientName.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {lesson ? 'Save' : 'Add Lesson'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { ParseDiagnostic, DiagnosticCode } from '@/lib/invoiceTypes';
+import { CalendarDate, formatCalendarDate } from '@/lib/calendarDate';
+
+interface ParseDiagnosticsPanelProps {
+  filename?: string;
+  diagnostics: ParseDiagnostic[];
+  chosenDates?: { [row: number]: CalendarDate }; // Readings picked so far, by row
+  onChooseDate?: (row: number, date: CalendarDate) => void; // Set to let the user pick between readings
+}
+
+// Codes for rows that were left out of the import
+const IGNORED_ROW_CODES: DiagnosticCode[] = ['NOT_A_DATE', 'TOTALS_ROW', 'EMPTY_ROW', 'SKIPPED_ROW'];
+
+const severityClassNames: Record<ParseDiagnostic['severity'], string> = {
+  info: 'text-gray-600',
+  warning: 'text-yellow-700',
+  error: 'text-red-700',
+};
+
+export default function ParseDiagnosticsPanel({ filename, diagnostics, chosenDates, onChooseDate }: ParseDiagnosticsPanelProps) {
+  // Open straight away when there are dates to pick
+  const [isExpanded, setIsExpanded] = useState(
+    !!onChooseDate && diagnostics.some(d => d.alternatives && d.alternatives.length > 1)
+  );
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const ignoredRows = diagnostics.filter(d => IGNORED_ROW_CODES.includes(d.code)).length;
+  const otherWarnings = diagnostics.filter(d => !IGNORED_ROW_CODES.includes(d.code)).length;
+
+  const summary = [
+    ignoredRows > 0 ? `${ignoredRows} ${ignoredRows === 1 ? 'row' : 'rows'} ignored` : null,
+    otherWarnings > 0 ? `${otherWarnings} ${otherWarnings === 1 ? 'warning' : 'warnings'}` : null,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="border border-yellow-200 bg-yellow-50 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-4 py-2 flex items-center justify-between text-sm text-yellow-800"
+      >
+        <span>
+          {filename && <span className="font-medium">{filename}: </span>}
+          {summary}
+        </span>
+        <span>{isExpanded ? '▲' : '▼'}</span>
+      </button>
+
+      {isExpanded && (
+        <ul className="px-4 pb-3 text-sm space-y-1">
+          {diagnostics.map((diagnostic, idx) => (
+            <li key={idx} className={severityClassNames[diagnostic.severity]}>
+              {diagnostic.row !== null && <span className="font-medium">Row {diagnostic.row}: </span>}
+              {diagnostic.message}
+              <span className="ml-2 text-xs text-gray-400">{diagnostic.code}</span>
+              {diagnostic.value !== undefined && diagnostic.value !== null && (
+                <span className="ml-2 text-gray-500">({String(diagnostic.value)})</span>
+              )}
+              {diagnostic.alternatives && diagnostic.alternatives.length > 1 && diagnostic.row !== null && (
+                onChooseDate ? (
+                  <span className="ml-2 inline-flex gap-1">
+                    {diagnostic.alternatives.map(date => {
+                      const isChosen = (chosenDates?.[diagnostic.row!] ?? diagnostic.alternatives![0]) === date;
+                      return (
+                        <button
+                          key={date}
+                          onClick={() => onChooseDate(diagnostic.row!, date)}
+                          className={`px-2 py-0.5 text-xs rounded border ${
+                            isChosen
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {formatCalendarDate(date)}
+                        </button>
+                      );
+                    })}
+                  </span>
+                ) : (
+                  <span className="ml-2 text-gray-500">
+                    Read as {formatCalendarDate(diagnostic.alternatives[0])}, could also be {formatCalendarDate(diagnostic.alternatives[1])}
+                  </span>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { ReviewSummary } from '@/app/api/reviews/route';
+
+interface ReviewQueueProps {
+  reviews: ReviewSummary[];
+  onReview: (id: number) => void;
+  onPostpone: (id: number) => void;
+  onDiscard: (id: number) => void;
+}
+
+const describeChanges = (review: ReviewSummary): string => {
+  const parts = [
+    review.added > 0 && `${review.added} new`,
+    review.removed > 0 && `${review.removed} removed`,
+    review.modified > 0 && `${review.modified} modified`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No remaining changes';
+};
+
+export default function ReviewQueue({ reviews, onReview, onPostpone, onDiscard }: ReviewQueueProps) {
+  if (reviews.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+      <h2 className="text-lg font-semibold text-yellow-800">
+        {reviews.length} {reviews.length === 1 ? 'file is' : 'files are'} waiting for a decision
+      </h2>
+      <p className="mt-1 text-sm text-yellow-700">
+        These files differ from the versions uploaded before. They are kept until you resolve or discard them.
+      </p>
+      <ul className="mt-3 divide-y divide-yellow-200">
+        {reviews.map(review => (
+          <li key={review.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+            <div>
+              <span className="font-medium text-gray-900">{review.filename}</span>
+              {review.sheet_name && <span className="text-gray-600"> / {review.sheet_name}</span>}
+              <span className="ml-2 text-gray-600">{describeChanges(review)}</span>
+              {review.status === 'postponed' && (
+                <span className="ml-2 px-2 py-0.5 text-xs text-gray-600 bg-gray-100 rounded">Postponed</span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onReview(review.id)}
+                className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                Review
+              </button>
+              {review.status !== 'postponed' && (
+                <button
+                  onClick={() => onPostpone(review.id)}
+                  className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Postpone
+                </button>
+              )}
+              <button
+                onClick={() => onDiscard(review.id)}
+                className="px-3 py-1 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+              >
+                Discard
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
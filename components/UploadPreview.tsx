@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { UploadResponse, WorkbookSummary } from '@/app/api/upload/route';
+import ParseDiagnosticsPanel from '@/components/ParseDiagnosticsPanel';
+import { CalendarDate, isCalendarDate, formatCalendarDate } from '@/lib/calendarDate';
+import { UploadDateOverrides } from '@/lib/invoiceTypes';
+
+interface UploadPreviewProps {
+  results: UploadResponse[];
+  workbooks: WorkbookSummary[];
+  isUploading: boolean;
+  onConfirm: (dateOverrides: UploadDateOverrides) => void;
+  onCancel: () => void;
+}
+
+const outcomeLabels: Record<'new' | 'duplicate' | 'diff', { label: string; className: string }> = {
+  new: { label: 'New file', className: 'bg-green-100 text-green-800' },
+  duplicate: { label: 'Already uploaded', className: 'bg-yellow-100 text-yellow-800' },
+  diff: { label: 'Changes an existing file', className: 'bg-blue-100 text-blue-800' },
+};
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (isCalendarDate(value)) {
+    return formatCalendarDate(value);
+  }
+  return String(value);
+};
+
+export default function UploadPreview({ results, workbooks, isUploading, onConfirm, onCancel }: UploadPreviewProps) {
+  const importableCount = results.filter(r => r.previewInfo?.outcome !== 'duplicate').length;
+  const [dateOverrides, setDateOverrides] = useState<UploadDateOverrides>({});
+
+  // Remember the reading picked for an ambiguous date; applied when the import is confirmed
+  const chooseDate = (filename: string, sheetName: string, row: number, date: CalendarDate) => {
+    setDateOverrides(prev => ({
+      ...prev,
+      [filename]: {
+        ...prev[filename],
+        [sheetName]: { ...prev[filename]?.[sheetName], [row]: date }
+      }
+    }));
+  };
+  const ignoredSheets = workbooks.flatMap(workbook =>
+    workbook.sheets
+      .filter(sheet => sheet.outcome === 'ignored')
+      .map(sheet => ({ filename: workbook.filename, ...sheet }))
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Upload Preview</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Nothing has been saved yet. Review what would be imported, then confirm.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {results.map((result, idx) => {
+            const info = result.previewInfo;
+            const data = result.data;
+            const outcome = info ? outcomeLabels[info.outcome] : null;
+
+            return (
+              <div key={idx} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-medium text-gray-900">
+                    {info?.filename}
+                    {info?.sheetName && <span className="text-gray-500"> / {info.sheetName}</span>}
+                  </h3>
+                  {outcome && (
+                    <span className={`px-2 py-1 text-xs font-medium rounded ${outcome.className}`}>
+                      {outcome.label}
+                    </span>
+                  )}
+                </div>
+
+                {info?.outcome === 'duplicate' ? (
+                  <p className="text-sm text-gray-600">{result.message}. It will be skipped.</p>
+                ) : data && (
+                  <>
+                    <div className="flex flex-wrap gap-6 text-sm text-gray-700 mb-3">
+                      <span>Layout: <strong>{data.layoutProfile}</strong></span>
+                      <span>Header row: <strong>{data.headerRow}</strong></span>
+                      <span>File total: <strong>${(data.totalAmount || 0).toFixed(2)}</strong></span>
+                      <span>Records: <strong>{data.records.length}</strong></span>
+                      {result.totalMismatch && (
+                        <span className="text-yellow-700">
+                          Line items: <strong>${result.totalMismatch.lineItemsTotal.toFixed(2)}</strong>
+                          {' '}(off by ${result.totalMismatch.difference.toFixed(2)})
+                        </span>
+                      )}
+                      {data.metadata?.invoiceNumber && (
+                        <span>Invoice #: <strong>{data.metadata.invoiceNumber}</strong></span>
+                      )}
+                      {data.metadata?.billingPeriodStart && data.metadata.billingPeriodEnd && (
+                        <span>
+                          Billing period: <strong>
+                            {formatCalendarDate(data.metadata.billingPeriodStart)} – {formatCalendarDate(data.metadata.billingPeriodEnd)}
+                          </strong>
+                        </span>
+                      )}
+                      {info?.diff && (
+                        <span>
+                          Changes: <strong>
+                            +{info.diff.added.length} / -{info.diff.removed.length} / ~{info.diff.modified.length}
+                          </strong>
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="overflow-x-auto max-h-64 border border-gray-200 rounded">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50 sticky top-0">
+                          <tr>
+                            {data.columns.map(column => (
+                              <th key={column} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                                {column}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {data.records.map((record, rowIdx) => (
+                            <tr key={rowIdx}>
+                              {data.columns.map(column => (
+                                <td key={column} className="px-3 py-1 whitespace-nowrap text-gray-900">
+                                  {formatValue(record[column])}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {result.diagnostics && result.diagnostics.length > 0 && (
+                      <div className="mt-3">
+                        <ParseDiagnosticsPanel
+                          diagnostics={result.diagnostics}
+                          chosenDates={info && info.sheetName ? dateOverrides[info.filename]?.[info.sheetName] : undefined}
+                          onChooseDate={info && info.sheetName
+                            ? (row, date) => chooseDate(info.filename, info.sheetName!, row, date)
+                            : undefined}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {ignoredSheets.length > 0 && (
+            <div className="border border-gray-200 rounded-lg p-4">
+              <h3 className="font-medium text-gray-900 mb-2">Ignored sheets</h3>
+              <ul className="text-sm text-gray-600 space-y-1">
+                {ignoredSheets.map((sheet, idx) => (
+                  <li key={idx}>
+                    {sheet.filename} / {sheet.sheetName}: {sheet.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(dateOverrides)}
+            disabled={isUploading || importableCount === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUploading ? 'Importing...' : 'Confirm Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { UploadedFile } from '@/lib/database';
+import { isCalendarDate, formatCalendarDate } from '@/lib/calendarDate';
+
+interface UploadedFilesTableProps {
+  files: UploadedFile[];
+  // Read files again from their original workbook: one file, or all of them without one
+  onReparse?: (file?: UploadedFile) => Promise<void>;
+}
+
+type SortColumn =
+  | 'filename'
+  | 'invoice_number'
+  | 'issue_date'
+  | 'billing_period_start'
+  | 'bill_to'
+  | 'total_amount'
+  | 'line_items_total'
+  | 'uploaded_at';
+
+const sortableColumns: { key: SortColumn; label: string }[] = [
+  { key: 'filename', label: 'File' },
+  { key: 'invoice_number', label: 'Invoice #' },
+  { key: 'issue_date', label: 'Issued' },
+  { key: 'billing_period_start', label: 'Billing Period' },
+  { key: 'bill_to', label: 'Bill To' },
+  { key: 'total_amount', label: 'Total' },
+  { key: 'line_items_total', label: 'Line Items' },
+  { key: 'uploaded_at', label: 'Uploaded' },
+];
+
+// The file total is off when it differs from the sum of the line items
+const hasTotalMismatch = (file: UploadedFile): boolean => {
+  return file.total_difference !== null && file.total_difference !== 0;
+};
+
+const formatDate = (value: string | null): string => {
+  return isCalendarDate(value) ? formatCalendarDate(value) : '';
+};
+
+export default function UploadedFilesTable({ files, onReparse }: UploadedFilesTableProps) {
+  const [search, setSearch] = useState('');
+  const [mismatchedOnly, setMismatchedOnly] = useState(false);
+  const [sortColumn, setSortColumn] = useState<SortColumn>('uploaded_at');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [reparsingId, setReparsingId] = useState<number | 'all' | null>(null);
+
+  // Search by file or sheet name, invoice number and bill-to details
+  const filteredFiles = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return files.filter(file => {
+      if (mismatchedOnly && !hasTotalMismatch(file)) return false;
+      if (!term) return true;
+      return [file.filename, file.sheet_name, file.invoice_number, file.bill_to]
+        .some(value => value && value.toLowerCase().includes(term));
+    });
+  }, [files, search, mismatchedOnly]);
+
+  const mismatchCount = files.filter(hasTotalMismatch).length;
+  const keptCount = files.filter(file => file.source_file_id !== null).length;
+
+  const handleReparse = async (file?: UploadedFile) => {
+    if (!onReparse || reparsingId !== null) return;
+    setReparsingId(file ? file.id : 'all');
+    try {
+      await onReparse(file);
+    } finally {
+      setReparsingId(null);
+    }
+  };
+
+  const sortedFiles = useMemo(() => {
+    return [...filteredFiles].sort((a, b) => {
+      const aValue = a[sortColumn];
+      const bValue = b[sortColumn];
+
+      // Files without the value always go last
+      if (aValue === null || aValue === undefined) return 1;
+      if (bValue === null || bValue === undefined) return -1;
+
+      if (typeof aValue === 'number' && typeof bValue === 'number') {
+        return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
+      }
+
+      // Invoice numbers compare numerically when they are numbers ("INV-9" before "INV-10")
+      const comparison = String(aValue).localeCompare(String(bValue), undefined, { numeric: true });
+      return sortDirection === 'asc' ? comparison : -comparison;
+    });
+  }, [filteredFiles, sortColumn, sortDirection]);
+
+  const handleSort = (column: SortColumn) => {
+    if (sortColumn === column) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(column);
+      setSortDirection('asc');
+    }
+  };
+
+  if (files.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by file, invoice number or bill to"
+          className="w-full max-w-sm px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={mismatchedOnly}
+            onChange={(e) => setMismatchedOnly(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Only totals that don&apos;t match ({mismatchCount})
+        </label>
+        <span className="text-sm text-gray-600">
+          Showing {sortedFiles.length} of {files.length} files
+        </span>
+        {onReparse && keptCount > 0 && (
+          <button
+            onClick={() => handleReparse()}
+            disabled={reparsingId !== null}
+            className="px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 disabled:opacity-50 whitespace-nowrap"
+            title="Read every file again from its original workbook with the current parser and layout profiles"
+          >
+            {reparsingId === 'all' ? 'Re-parsing...' : 'Re-parse All'}
+          </button>
+        )}
+      </div>
+      <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            {sortableColumns.map(({ key, label }) => (
+              <th
+                key={key}
+                onClick={() => handleSort(key)}
+                className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-blue-50 cursor-pointer hover:bg-gray-100"
+              >
+                <div className="flex items-center gap-2">
+                  {label}
+                  {sortColumn === key && (
+                    <span className="text-blue-600">
+                      {sortDirection === 'asc' ? '↑' : '↓'}
+                    </span>
+                  )}
+                </div>
+              </th>
+            ))}
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-blue-50">
+              Original
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {sortedFiles.length === 0 ? (
+            <tr>
+              <td colSpan={sortableColumns.length + 1} className="px-4 py-4 text-center text-gray-500">
+                No files match the search.
+              </td>
+            </tr>
+          ) : (
+            sortedFiles.map(file => (
+              <tr
+                key={file.id}
+                className={`text-sm text-gray-900 ${hasTotalMismatch(file) ? 'bg-yellow-50 hover:bg-yellow-100' : 'hover:bg-gray-50'}`}
+              >
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {file.filename}
+                  {file.sheet_name && <span className="text-gray-500"> / {file.sheet_name}</span>}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap font-medium">{file.invoice_number || '-'}</td>
+                <td className="px-4 py-3 whitespace-nowrap">{formatDate(file.issue_date) || '-'}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {file.billing_period_start || file.billing_period_end
+                    ? `${formatDate(file.billing_period_start)} – ${formatDate(file.billing_period_end)}`
+                    : '-'}
+                </td>
+                <td className="px-4 py-3 max-w-xs truncate" title={file.bill_to || undefined}>
+                  {file.bill_to || '-'}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">${(file.total_amount || 0).toFixed(2)}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {file.line_items_total !== null ? `$${file.line_items_total.toFixed(2)}` : '-'}
+                  {hasTotalMismatch(file) && (
+                    <span className="ml-2 text-yellow-700" title="File total doesn't match the sum of the line items">
+                      ⚠ off by ${file.total_difference!.toFixed(2)}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">{new Date(file.uploaded_at).toLocaleDateString()}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {file.source_file_id === null ? (
+                    <span className="text-gray-400" title="No original file was kept for this one">-</span>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      <a
+                        href={`/api/invoices/source?fileId=${file.id}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Download
+                      </a>
+                      {onReparse && (
+                        <button
+                          onClick={() => handleReparse(file)}
+                          disabled={reparsingId !== null}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          {reparsingId === file.id ? 'Re-parsing...' : 'Re-parse'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getDatabase,
+  getHomeAddressDb,
+  mergeBackupDatabase,
+  replaceWithBackupDatabase,
+  BackupMergeResult,
+  DB_PATH
+} from './database';
+import { runMigrations, SCHEMA_VERSION } from './migrations';
+
+export const BACKUP_FORMAT = 'rtg-invoice-tracker-backup';
+export const BACKUP_VERSION = 1;
+
+// Settings as they were when the backup was made. The OpenRouteService API key is only
+// kept in the browser and is left out, so a backup file holds no credentials.
+export interface BackupSettings {
+  homeAddress: string | null;
+}
+
+export interface BackupSummary {
+  files: number;
+  records: number;
+  layoutProfiles: number;
+  addresses: number;
+}
+
+// One JSON document holding a consistent snapshot of the whole database
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  schemaVersion: number; // Migration the snapshot was taken at
+  summary: BackupSummary;
+  settings: BackupSettings;
+  database: string; // SQLite database file, base64
+  checksum: string; // SHA-256 of the database file, hex
+}
+
+// 'replace' swaps the current data for the backup; 'merge' adds what is missing
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  summary: BackupSummary;
+  merged?: BackupMergeResult;
+  previousDatabase?: string; // Where the replaced database was kept
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function summarize(database: Database.Database): BackupSummary {
+  const count = (table: string) =>
+    (database.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+  return {
+    files: count('uploaded_files'),
+    records: count('invoice_records'),
+    layoutProfiles: count('layout_profiles'),
+    addresses: count('addresses'),
+  };
+}
+
+// Snapshot the database, including changes still in the WAL
+export function createBackup(): BackupArchive {
+  const database = getDatabase();
+  const snapshot = database.serialize();
+  const settings: BackupSettings = { homeAddress: getHomeAddressDb() };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    summary: summarize(database),
+    settings,
+    database: snapshot.toString('base64'),
+    checksum: sha256(snapshot),
+  };
+}
+
+// Open the backup's database in memory, upgraded to the current schema
+function openSnapshot(archive: BackupArchive): Database.Database {
+  const data = Buffer.from(archive.database, 'base64');
+  // A snapshot of a WAL database is marked as one in its header (bytes 18 and 19), and an
+  // in-memory database can't be opened in WAL mode
+  if (data.length >= 20 && data[18] === 2 && data[19] === 2) {
+    data[18] = 1;
+    data[19] = 1;
+  }
+  const snapshot = new Database(data);
+  try {
+    const [{ integrity_check }] = snapshot.pragma('integrity_check') as { integrity_check: string }[];
+    if (integrity_check !== 'ok') {
+      throw new Error(`Backup database is damaged: ${integrity_check}`);
+    }
+    runMigrations(snapshot);
+    return snapshot;
+  } catch (error) {
+    snapshot.close();
+    throw error;
+  }
+}
+
+// Check that an uploaded archive is a complete backup this app can restore.
+// Returns an error message, or null if it is valid.
+export function validateBackup(archive: unknown): string | null {
+  if (!archive || typeof archive !== 'object') {
+    return 'Not a backup file';
+  }
+  const candidate = archive as Partial<BackupArchive>;
+  if (candidate.format !== BACKUP_FORMAT) {
+    return 'Not a backup file';
+  }
+  if (candidate.version !== BACKUP_VERSION) {
+    return `Backup format version ${candidate.version} is not supported`;
+  }
+  if (typeof candidate.schemaVersion !== 'number' || candidate.schemaVersion > SCHEMA_VERSION) {
+    return `Backup was made by a newer version of the app (schema ${candidate.schemaVersion}, this app supports ${SCHEMA_VERSION})`;
+  }
+  if (typeof candidate.database !== 'string' || typeof candidate.checksum !== 'string') {
+    return 'Backup is missing its database';
+  }
+  if (sha256(Buffer.from(candidate.database, 'base64')) !== candidate.checksum) {
+    return 'Backup is incomplete or damaged (checksum mismatch)';
+  }
+
+  try {
+    openSnapshot(candidate as BackupArchive).close();
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Backup database could not be read';
+  }
+  return null;
+}
+
+// Restore a validated backup. Replacing keeps the current database next to it as
+// invoices.db.before-restore-<time> in case the wrong backup was picked; the audit log
+// keeps its history either way and records the restore.
+export function restoreBackup(archive: BackupArchive, mode: RestoreMode): RestoreResult {
+  const snapshot = openSnapshot(archive);
+  const summary = summarize(snapshot);
+  const upgraded = snapshot.serialize();
+  snapshot.close();
+
+  let previousDatabase: string | undefined;
+  if (mode === 'replace') {
+    previousDatabase = `${DB_PATH}.before-restore-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    fs.writeFileSync(previousDatabase, getDatabase().serialize());
+  }
+
+  const backupPath = path.join(os.tmpdir(), `invoice-backup-${process.pid}-${Date.now()}.db`);
+  fs.writeFileSync(backupPath, upgraded);
+  try {
+    if (mode === 'merge') {
+      return { mode, summary, merged: mergeBackupDatabase(backupPath) };
+    }
+    replaceWithBackupDatabase(backupPath);
+    return { mode, summary, previousDatabase: path.basename(previousDatabase!) };
+  } finally {
+    fs.rmSync(backupPath, { force: true });
+  }
+}
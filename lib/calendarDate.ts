@@ -0,0 +1,80 @@
+// Lesson dates are carried as calendar dates (YYYY-MM-DD strings) rather than JS Dates.
+// A Date is an instant in time, so local midnight in Australia is the previous day in UTC
+// and lessons end up grouped, filtered and compared under the wrong day.
+export type CalendarDate = string;
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+const MS_PER_DAY = 86400000;
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+export function isCalendarDate(value: unknown): value is CalendarDate {
+  return typeof value === 'string' && CALENDAR_DATE_PATTERN.test(value);
+}
+
+// Build a calendar date from parts (month is 1-based). Returns null for dates like 31/02.
+export function toCalendarDate(year: number, month: number, day: number): CalendarDate | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+export function parseCalendarDate(date: CalendarDate): { year: number; month: number; day: number } {
+  const [, year, month, day] = date.match(CALENDAR_DATE_PATTERN) || [];
+  return { year: Number(year), month: Number(month), day: Number(day) };
+}
+
+// Excel stores dates as days since 1899-12-30. Time of day (the fraction) is dropped.
+export function calendarDateFromExcelSerial(serial: number): CalendarDate {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * MS_PER_DAY);
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// Use the local calendar day of a Date (e.g. today, or a Date created by a date library)
+export function calendarDateFromLocalDate(date: Date): CalendarDate {
+  return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Lesson dates saved before calendar dates were introduced are ISO timestamps of local
+// midnight on the server (e.g. 2024-03-03T13:00:00.000Z for 4 March in Melbourne).
+// Rounding to the nearest UTC midnight recovers the intended day for any UTC offset
+// under 12 hours.
+export function calendarDateFromLegacyTimestamp(value: string): CalendarDate | null {
+  const time = Date.parse(value);
+  if (isNaN(time)) return null;
+  const rounded = new Date(time + MS_PER_DAY / 2);
+  return `${pad(rounded.getUTCFullYear(), 4)}-${pad(rounded.getUTCMonth() + 1)}-${pad(rounded.getUTCDate())}`;
+}
+
+// Normalize a stored or transmitted date value to a calendar date, leaving other values alone
+export function normalizeDateValue<T>(value: T): T | CalendarDate {
+  if (typeof value === 'string' && ISO_TIMESTAMP_PATTERN.test(value)) {
+    return calendarDateFromLegacyTimestamp(value) ?? value;
+  }
+  return value;
+}
+
+// Normalize every date-named field of a record (see normalizeDateValue)
+export function normalizeRecordDates<T extends Record<string, unknown>>(record: T): T {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    normalized[key] = key.toLowerCase().includes('date') ? normalizeDateValue(value) : value;
+  }
+  return normalized as T;
+}
+
+export function todayCalendarDate(): CalendarDate {
+  return calendarDateFromLocalDate(new Date());
+}
+
+// Format for display without any timezone conversion (browser locale unless one is given)
+export function formatCalendarDate(date: CalendarDate, locale?: string): string {
+  const { year, month, day } = parseCalendarDate(date);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(locale, { timeZone: 'UTC' });
+}
@@ -0,0 +1,110 @@
+import { InvoiceRecord } from './invoiceTypes';
+
+// Names at least this similar to a known client are offered as a possible match
+// rather than becoming a new client
+export const CLIENT_MATCH_THRESHOLD = 0.75;
+
+// The form client names and aliases are stored and matched in: trimmed, single spaces
+export function normalizeClientName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+// Lowercase words without accents or punctuation, so "J. Citizen" compares as "j citizen"
+function nameWords(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// "J Citizen" and "Jane Citizen": the same number of words, each either equal or an
+// initial of the other, with at least one full word in common
+function matchesWithInitials(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  let fullMatches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      if (a[i].length > 1) fullMatches++;
+    } else if (!(a[i].length === 1 && b[i].startsWith(a[i])) && !(b[i].length === 1 && a[i].startsWith(b[i]))) {
+      return false;
+    }
+  }
+  return fullMatches > 0;
+}
+
+// How alike two client names are, from 0 to 1 (the same name in another case or spacing)
+export function clientNameSimilarity(a: string, b: string): number {
+  const aWords = nameWords(a);
+  const bWords = nameWords(b);
+  const aText = aWords.join(' ');
+  const bText = bWords.join(' ');
+  if (aText === '' || bText === '') return 0;
+  if (aText === bText) return 1;
+
+  const editScore = 1 - levenshtein(aText, bText) / Math.max(aText.length, bText.length);
+  // The same words in another order, e.g. "Citizen Jane"
+  const reordered = [...aWords].sort().join(' ') === [...bWords].sort().join(' ') ? 0.9 : 0;
+  const initials = matchesWithInitials(aWords, bWords) ? 0.85 : 0;
+  return Math.max(editScore, reordered, initials);
+}
+
+export interface ClientSuggestion {
+  clientId: number;
+  name: string; // The client's canonical name
+  matchedName: string; // The name or alias that was similar
+  score: number;
+}
+
+// Known clients that a name could belong to, best match first
+export function suggestClients(
+  name: string,
+  candidates: { clientId: number; name: string; knownName: string }[],
+  limit: number = 3
+): ClientSuggestion[] {
+  const best = new Map<number, ClientSuggestion>();
+  for (const candidate of candidates) {
+    const score = clientNameSimilarity(name, candidate.knownName);
+    if (score < CLIENT_MATCH_THRESHOLD) continue;
+    const current = best.get(candidate.clientId);
+    if (!current || score > current.score) {
+      best.set(candidate.clientId, {
+        clientId: candidate.clientId,
+        name: candidate.name,
+        matchedName: candidate.knownName,
+        score: Math.round(score * 100) / 100,
+      });
+    }
+  }
+  return Array.from(best.values()).sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// The client a record belongs to: the canonical name of the client it is linked to,
+// else the name in its client column
+export function recordClientName(record: InvoiceRecord): string {
+  if (typeof record._clientName === 'string' && record._clientName) {
+    return record._clientName;
+  }
+  const clientNameKey = Object.keys(record).find(
+    key => !key.startsWith('_') && (key.toLowerCase().includes('client name') || key.toLowerCase().includes('client'))
+  );
+  return clientNameKey ? String(record[clientNameKey] || '').trim() : '';
+}
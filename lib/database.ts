@@ -1,8 +1,29 @@
 import Database from 'better-sqlite3';
 import path from 'path';
-import { InvoiceRecord, ParsedInvoiceData } from './invoiceTypes';
-
-const DB_PATH = path.join(process.cwd(), 'data', 'invoices.db');
+import { InvoiceRecord, ParsedInvoiceData, LayoutProfile } from './invoiceTypes';
+import { normalizeRecordDates } from './calendarDate';
+import { CANONICAL_COLUMNS, normalizeLayoutProfile } from './layoutProfiles';
+import { runMigrations } from './migrations';
+import { HoursGrouping, HoursReport, HoursReportRow } from './hoursReport';
+import { ClientSuggestion, normalizeClientName, suggestClients } from './clientMatching';
+import {
+  PromotedColumns,
+  StoredRecord,
+  TypedRecordFields,
+  isAppField,
+  getPromotedColumns,
+  splitRecord,
+  joinRecord
+} from './recordColumns';
+import {
+  RecordKeyFunction,
+  resolveRecordIdentity,
+  recordMatchers,
+  findDuplicateKeys,
+  pairRecords
+} from './recordIdentity';
+
+export const DB_PATH = path.join(process.cwd(), 'data', 'invoices.db');
 
 let db: Database.Database | null = null;
 
@@ -15,76 +36,125 @@ export function getDatabase(): Database.Database {
       fs.mkdirSync(dataDir, { recursive: true });
     }
 
-    db = new Database(DB_PATH);
-    db.pragma('journal_mode = WAL');
-    initDatabase();
+    const database = new Database(DB_PATH);
+    database.pragma('journal_mode = WAL');
+    // Create or upgrade the schema (see lib/migrations.ts). The connection is only kept
+    // once every migration has applied, so a failed upgrade is retried on the next call.
+    try {
+      runMigrations(database);
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+    db = database;
   }
   return db;
 }
 
-function initDatabase(): void {
-  const database = db!;
-
-  database.exec(`
-    CREATE TABLE IF NOT EXISTS uploaded_files (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      filename TEXT NOT NULL,
-      content_hash TEXT UNIQUE NOT NULL,
-      uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      total_amount REAL DEFAULT 0
-    );
-
-    CREATE TABLE IF NOT EXISTS invoice_records (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      file_id INTEGER NOT NULL,
-      record_data TEXT NOT NULL,
-      kilometers REAL DEFAULT NULL,
-      FOREIGN KEY (file_id) REFERENCES uploaded_files(id) ON DELETE CASCADE
-    );
+// Audit log functions. Every change to files, records, addresses, clients, queued reviews and
+// layout profiles is written to audit_log by triggers; the app labels each change with the
+// operation that made it.
+export type AuditAction =
+  | 'upload'
+  | 'replace'
+  | 'merge'
+  | 'resolve'
+  | 'trash'
+  | 'restore'
+  | 'purge'
+  | 'hide-duplicate'
+  | 'show-duplicate'
+  | 'delete-record'
+  | 'add-lesson'
+  | 'edit-lesson'
+  | 'kilometers'
+  | 'address'
+  | 'client'
+  | 'merge-clients'
+  | 'rename-client'
+  | 'review'
+  | 'layout-profile'
+  | 'restore-backup';
+
+// Like database.transaction, with the changes made by fn logged as the given action
+function auditedTransaction<T>(database: Database.Database, action: AuditAction, fn: () => T): () => T {
+  const getAction = database.prepare('SELECT action FROM audit_context WHERE id = 1');
+  const setAction = database.prepare(`
+    INSERT INTO audit_context (id, action) VALUES (1, ?)
+    ON CONFLICT(id) DO UPDATE SET action = excluded.action
+  `);
 
-    CREATE TABLE IF NOT EXISTS file_columns (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      file_id INTEGER NOT NULL,
-      column_name TEXT NOT NULL,
-      FOREIGN KEY (file_id) REFERENCES uploaded_files(id) ON DELETE CASCADE
-    );
+  return database.transaction(() => {
+    // An operation run inside another keeps the outer operation's label afterwards
+    const previous = (getAction.get() as { action: string | null } | undefined)?.action ?? null;
+    setAction.run(action);
+    try {
+      return fn();
+    } finally {
+      setAction.run(previous);
+    }
+  });
+}
 
-    CREATE INDEX IF NOT EXISTS idx_content_hash ON uploaded_files(content_hash);
-    CREATE INDEX IF NOT EXISTS idx_filename ON uploaded_files(filename);
-    CREATE INDEX IF NOT EXISTS idx_file_id ON invoice_records(file_id);
-
-    CREATE TABLE IF NOT EXISTS distance_cache (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      origin_address TEXT NOT NULL,
-      destination_address TEXT NOT NULL,
-      distance_km REAL NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(origin_address, destination_address)
-    );
+export interface AuditEntry {
+  id: number;
+  changed_at: string;
+  action: AuditAction | 'change'; // 'change' when made outside the app
+  change: 'insert' | 'update' | 'delete';
+  table_name: string;
+  row_id: number;
+  file_id: number | null;
+  filename: string | null; // Current name of the file, unless it has been purged
+  client_name: string | null;
+  lesson_date: string | null;
+  before_data: string | null; // JSON of the row before the change
+  after_data: string | null; // JSON of the row after the change
+}
 
-    CREATE INDEX IF NOT EXISTS idx_distance_origin ON distance_cache(origin_address);
-    CREATE INDEX IF NOT EXISTS idx_distance_destination ON distance_cache(destination_address);
-
-    CREATE TABLE IF NOT EXISTS addresses (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      address_type TEXT NOT NULL,
-      client_name TEXT,
-      address TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(address_type, client_name)
-    );
+export interface AuditFilter {
+  fileId?: number;
+  clientName?: string;
+  from?: string; // YYYY-MM-DD, day of the change
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
 
-    CREATE INDEX IF NOT EXISTS idx_address_type ON addresses(address_type);
-    CREATE INDEX IF NOT EXISTS idx_client_name ON addresses(client_name);
-  `);
+// Newest changes first
+export function getAuditLog(filter: AuditFilter = {}): { entries: AuditEntry[]; total: number } {
+  const database = getDatabase();
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
 
-  // Migration: Add kilometers column if it doesn't exist
-  try {
-    database.exec(`ALTER TABLE invoice_records ADD COLUMN kilometers REAL DEFAULT NULL`);
-  } catch {
-    // Column already exists, ignore error
+  if (filter.fileId !== undefined) {
+    conditions.push('a.file_id = ?');
+    params.push(filter.fileId);
+  }
+  if (filter.clientName) {
+    conditions.push('a.client_name = ? COLLATE NOCASE');
+    params.push(filter.clientName);
+  }
+  if (filter.from) {
+    conditions.push('date(a.changed_at) >= ?');
+    params.push(filter.from);
   }
+  if (filter.to) {
+    conditions.push('date(a.changed_at) <= ?');
+    params.push(filter.to);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { total } = database.prepare(`SELECT COUNT(*) AS total FROM audit_log a ${where}`).get(...params) as { total: number };
+  const entries = database.prepare(`
+    SELECT a.*, f.filename
+    FROM audit_log a
+    LEFT JOIN uploaded_files f ON f.id = a.file_id
+    ${where}
+    ORDER BY a.id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, filter.limit ?? 100, filter.offset ?? 0) as AuditEntry[];
+
+  return { entries, total };
 }
 
 export interface UploadedFile {
@@ -93,27 +163,78 @@ export interface UploadedFile {
   content_hash: string;
   uploaded_at: string;
   total_amount: number;
+  sheet_name: string | null;
+  invoice_number: string | null;
+  issue_date: string | null; // YYYY-MM-DD
+  billing_period_start: string | null;
+  billing_period_end: string | null;
+  bill_to: string | null;
+  line_items_total: number | null; // Sum of the amount column
+  total_difference: number | null; // total_amount - line_items_total; non-zero means the file total is off
+  deleted_at: string | null; // Set while the file is in the trash
+  source_file_id: number | null; // The workbook it was read from, when it was kept
 }
 
+// A file in the trash is found too: it keeps its content hash until it is purged
 export function getFileByHash(hash: string): UploadedFile | undefined {
   const database = getDatabase();
   return database.prepare('SELECT * FROM uploaded_files WHERE content_hash = ?').get(hash) as UploadedFile | undefined;
 }
 
-export function getFileByFilename(filename: string): UploadedFile | undefined {
+export function getFileByFilename(filename: string, sheetName: string | null = null): UploadedFile | undefined {
   const database = getDatabase();
-  return database.prepare('SELECT * FROM uploaded_files WHERE filename = ?').get(filename) as UploadedFile | undefined;
+  return database.prepare(`
+    SELECT * FROM uploaded_files WHERE filename = ? AND sheet_name IS ? AND deleted_at IS NULL
+  `).get(filename, sheetName) as UploadedFile | undefined;
+}
+
+// The record a hidden duplicate is a copy of, as long as that record's file isn't in the
+// trash; otherwise the copy counts again
+function visibleDuplicateOf(table: string): string {
+  return `(
+    SELECT original.id FROM invoice_records original
+    JOIN uploaded_files original_file ON original_file.id = original.file_id
+    WHERE original.id = ${table}.duplicate_of AND original_file.deleted_at IS NULL
+  )`;
 }
 
+// Where a record came from: a spreadsheet, added by hand, or uploaded and changed by hand since.
+// Records added or changed by hand are never overwritten or deleted by a re-upload on its own.
+export type RecordSource = 'upload' | 'manual' | 'edited';
+
+// An invoice_records row as read back, with the canonical name of its linked client
+type RecordRow = StoredRecord & {
+  id: number;
+  file_id: number;
+  kilometers: number | null;
+  source: RecordSource;
+  client: string | null;
+};
+
 export function getFileRecords(fileId: number): InvoiceRecord[] {
   const database = getDatabase();
-  const rows = database.prepare('SELECT id, record_data, kilometers FROM invoice_records WHERE file_id = ?').all(fileId) as { id: number; record_data: string; kilometers: number | null }[];
+  const promoted = getPromotedColumns(getFileColumns(fileId));
+  const rows = database.prepare(`
+    SELECT id, lesson_date, client_name, amount, start_time, duration_minutes, record_data, kilometers, source,
+           ${visibleDuplicateOf('invoice_records')} AS duplicate_of,
+           (SELECT name FROM clients WHERE clients.id = invoice_records.client_id) AS client
+    FROM invoice_records WHERE file_id = ?
+  `).all(fileId) as (RecordRow & { duplicate_of: number | null })[];
   return rows.map(row => {
-    const record = JSON.parse(row.record_data);
+    const record = joinRecord(row, promoted);
     record._dbId = row.id; // Store the database ID for updates
     if (row.kilometers !== null) {
       record.kilometers = row.kilometers;
     }
+    if (row.client !== null) {
+      record._clientName = row.client; // Canonical name of the linked client
+    }
+    if (row.source !== 'upload') {
+      record._source = row.source; // Added or changed by hand
+    }
+    if (row.duplicate_of !== null) {
+      record._duplicateOf = row.duplicate_of; // Hidden as a copy of this record
+    }
     return record;
   });
 }
@@ -124,42 +245,146 @@ export function getFileColumns(fileId: number): string[] {
   return rows.map(row => row.column_name);
 }
 
-export function saveInvoiceData(
-  filename: string,
-  contentHash: string,
-  data: ParsedInvoiceData
-): number {
-  const database = getDatabase();
-
-  const insertFile = database.prepare(`
-    INSERT INTO uploaded_files (filename, content_hash, total_amount)
-    VALUES (?, ?, ?)
+// Save each record's main fields in typed columns (lesson dates are already YYYY-MM-DD
+// strings) so they can be filtered and summed in SQL; the rest goes into record_data
+function insertRecords(
+  database: Database.Database,
+  fileId: number,
+  records: InvoiceRecord[],
+  promoted: PromotedColumns,
+  source: RecordSource = 'upload'
+): number[] {
+  const insertRecord = database.prepare(`
+    INSERT INTO invoice_records (
+      file_id, lesson_date, client_name, amount, start_time, duration_minutes, record_data, source
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  const insertRecord = database.prepare(`
-    INSERT INTO invoice_records (file_id, record_data)
-    VALUES (?, ?)
+  const ids: number[] = [];
+  const clientNames = new Set<string>();
+  for (const record of records) {
+    const stored = splitRecord(record, promoted);
+    const result = insertRecord.run(
+      fileId,
+      stored.lesson_date,
+      stored.client_name,
+      stored.amount,
+      stored.start_time,
+      stored.duration_minutes,
+      stored.record_data,
+      source
+    );
+    ids.push(result.lastInsertRowid as number);
+    if (stored.client_name) clientNames.add(stored.client_name);
+  }
+  linkRecordClients(database, Array.from(clientNames));
+  return ids;
+}
+
+// Overwrite the lesson fields of existing records. Ids and kilometers are kept. Returns the
+// days of lessons moved to another date, client or start time (see clearDayKilometers).
+function updateRecords(
+  database: Database.Database,
+  updates: { id: number; record: InvoiceRecord }[],
+  promoted: PromotedColumns
+): (string | null)[] {
+  const selectRoute = database.prepare('SELECT lesson_date, client_name, start_time FROM invoice_records WHERE id = ?');
+  const updateRecord = database.prepare(`
+    UPDATE invoice_records
+    SET lesson_date = ?, client_name = ?, amount = ?, start_time = ?, duration_minutes = ?, record_data = ?
+    WHERE id = ?
   `);
 
+  const movedDays: (string | null)[] = [];
+  const clientNames = new Set<string>();
+  for (const { id, record } of updates) {
+    const stored = splitRecord(record, promoted);
+    const old = selectRoute.get(id) as Pick<TypedRecordFields, 'lesson_date' | 'client_name' | 'start_time'> | undefined;
+    if (old && (
+      old.lesson_date !== stored.lesson_date ||
+      (old.client_name ?? '').toLowerCase() !== (stored.client_name ?? '').toLowerCase() ||
+      old.start_time !== stored.start_time
+    )) {
+      movedDays.push(old.lesson_date, stored.lesson_date);
+    }
+    updateRecord.run(
+      stored.lesson_date,
+      stored.client_name,
+      stored.amount,
+      stored.start_time,
+      stored.duration_minutes,
+      stored.record_data,
+      id
+    );
+    if (stored.client_name) clientNames.add(stored.client_name);
+  }
+  linkRecordClients(database, Array.from(clientNames));
+  return movedDays;
+}
+
+// The lesson days of records, e.g. of those about to be deleted or just inserted
+function recordDays(database: Database.Database, recordIds: number[]): (string | null)[] {
+  const selectDay = database.prepare('SELECT lesson_date FROM invoice_records WHERE id = ?');
+  return recordIds.map(id => (selectDay.get(id) as { lesson_date: string | null } | undefined)?.lesson_date ?? null);
+}
+
+function deleteRecords(database: Database.Database, recordIds: number[]): void {
+  const deleteRecord = database.prepare('DELETE FROM invoice_records WHERE id = ?');
+  for (const id of recordIds) {
+    deleteRecord.run(id);
+  }
+}
+
+function setFileColumns(database: Database.Database, fileId: number, columns: string[]): void {
+  database.prepare('DELETE FROM file_columns WHERE file_id = ?').run(fileId);
   const insertColumn = database.prepare(`
     INSERT INTO file_columns (file_id, column_name)
     VALUES (?, ?)
   `);
+  for (const column of columns) {
+    insertColumn.run(fileId, column);
+  }
+}
+
+export function saveInvoiceData(
+  filename: string,
+  contentHash: string,
+  data: ParsedInvoiceData,
+  sourceFileId: number | null = null
+): number {
+  const database = getDatabase();
+
+  const insertFile = database.prepare(`
+    INSERT INTO uploaded_files (
+      filename, content_hash, total_amount, sheet_name,
+      invoice_number, issue_date, billing_period_start, billing_period_end, bill_to,
+      line_items_total, total_difference, source_file_id
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
 
-  const transaction = database.transaction(() => {
-    const result = insertFile.run(filename, contentHash, data.totalAmount || 0);
+  const transaction = auditedTransaction(database, 'upload', () => {
+    checkHashNotInTrash(database, contentHash);
+    const metadata = data.metadata;
+    const result = insertFile.run(
+      filename,
+      contentHash,
+      data.totalAmount || 0,
+      data.sheetName ?? null,
+      metadata?.invoiceNumber ?? null,
+      metadata?.issueDate ?? null,
+      metadata?.billingPeriodStart ?? null,
+      metadata?.billingPeriodEnd ?? null,
+      metadata?.billTo ?? null,
+      data.lineItemsTotal ?? null,
+      data.totalDifference ?? null,
+      sourceFileId
+    );
     const fileId = result.lastInsertRowid as number;
 
-    // Save records with dates serialized
-    for (const record of data.records) {
-      const serializedRecord = serializeRecord(record);
-      insertRecord.run(fileId, JSON.stringify(serializedRecord));
-    }
-
-    // Save columns
-    for (const column of data.columns) {
-      insertColumn.run(fileId, column);
-    }
+    insertRecords(database, fileId, data.records, getPromotedColumns(data.columns));
+    setFileColumns(database, fileId, data.columns);
 
     return fileId;
   });
@@ -167,52 +392,366 @@ export function saveInvoiceData(
   return transaction();
 }
 
+// Update an uploaded file's details from a new version of it, keeping its id. Without a
+// source file id the workbook it was read from stays the same.
+function updateFileDetails(
+  database: Database.Database,
+  fileId: number,
+  filename: string,
+  contentHash: string,
+  data: ParsedInvoiceData,
+  sourceFileId?: number | null
+): void {
+  checkHashNotInTrash(database, contentHash);
+  const metadata = data.metadata;
+  database.prepare(`
+    UPDATE uploaded_files
+    SET filename = ?, content_hash = ?, total_amount = ?, sheet_name = ?,
+        invoice_number = ?, issue_date = ?, billing_period_start = ?, billing_period_end = ?, bill_to = ?,
+        line_items_total = ?, total_difference = ?, source_file_id = COALESCE(?, source_file_id),
+        uploaded_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(
+    filename,
+    contentHash,
+    data.totalAmount || 0,
+    data.sheetName ?? null,
+    metadata?.invoiceNumber ?? null,
+    metadata?.issueDate ?? null,
+    metadata?.billingPeriodStart ?? null,
+    metadata?.billingPeriodEnd ?? null,
+    metadata?.billTo ?? null,
+    data.lineItemsTotal ?? null,
+    data.totalDifference ?? null,
+    sourceFileId ?? null,
+    fileId
+  );
+  deleteUnusedSourceFiles(database);
+}
+
+// The same content can't be saved again while a file with it is in the trash; the user
+// restores that file or deletes it for good first
+function checkHashNotInTrash(database: Database.Database, contentHash: string): void {
+  const trashed = database.prepare(`
+    SELECT filename FROM uploaded_files WHERE content_hash = ? AND deleted_at IS NOT NULL
+  `).get(contentHash) as { filename: string } | undefined;
+  if (trashed) {
+    throw new Error(`"${trashed.filename}" has the same content and is in the trash; restore it or delete it for good first`);
+  }
+}
+
+// Move a file to the trash. Its records, columns and kilometers are kept until it is purged;
+// reviews waiting on it are dropped.
 export function deleteFile(fileId: number): void {
   const database = getDatabase();
-  database.prepare('DELETE FROM uploaded_files WHERE id = ?').run(fileId);
+  auditedTransaction(database, 'trash', () => {
+    database.prepare(`
+      UPDATE uploaded_files SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL
+    `).run(fileId);
+    database.prepare('DELETE FROM pending_reviews WHERE existing_file_id = ?').run(fileId);
+  })();
 }
 
 export function getAllUploadedFiles(): UploadedFile[] {
   const database = getDatabase();
-  return database.prepare('SELECT * FROM uploaded_files ORDER BY uploaded_at DESC').all() as UploadedFile[];
+  return database.prepare(`
+    SELECT * FROM uploaded_files WHERE deleted_at IS NULL ORDER BY uploaded_at DESC
+  `).all() as UploadedFile[];
 }
 
-export function getAllInvoices(): {
-  files: UploadedFile[];
-  records: InvoiceRecord[];
-  columns: string[];
-  totalAmount: number;
-} {
+// Trash functions. Deleted files stay restorable for TRASH_RETENTION_DAYS.
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashedFile extends UploadedFile {
+  record_count: number;
+}
+
+export function getTrashedFiles(): TrashedFile[] {
   const database = getDatabase();
-  const files = getAllUploadedFiles();
+  return database.prepare(`
+    SELECT f.*, (SELECT COUNT(*) FROM invoice_records r WHERE r.file_id = f.id) AS record_count
+    FROM uploaded_files f
+    WHERE f.deleted_at IS NOT NULL
+    ORDER BY f.deleted_at DESC
+  `).all() as TrashedFile[];
+}
 
-  if (files.length === 0) {
-    return { files: [], records: [], columns: [], totalAmount: 0 };
+// Restore a file from the trash. Fails if a file with the same name and sheet was
+// uploaded in the meantime, since re-uploads are matched by name.
+export function restoreFile(fileId: number): void {
+  const database = getDatabase();
+  const file = database.prepare(`
+    SELECT filename, sheet_name FROM uploaded_files WHERE id = ? AND deleted_at IS NOT NULL
+  `).get(fileId) as { filename: string; sheet_name: string | null } | undefined;
+  if (!file) {
+    throw new Error('File not found in the trash');
+  }
+  if (getFileByFilename(file.filename, file.sheet_name)) {
+    throw new Error(`A file named "${file.filename}" has been uploaded since; delete it before restoring this one`);
   }
+  auditedTransaction(database, 'restore', () => {
+    database.prepare('UPDATE uploaded_files SET deleted_at = NULL WHERE id = ?').run(fileId);
+  })();
+}
 
-  // Collect all records
-  const allRecords: InvoiceRecord[] = [];
-  const columnSet = new Set<string>();
-  let totalAmount = 0;
+// Permanently delete a file in the trash with its records, columns and kilometers
+export function purgeFile(fileId: number): void {
+  const database = getDatabase();
+  auditedTransaction(database, 'purge', () => {
+    database.prepare('DELETE FROM uploaded_files WHERE id = ? AND deleted_at IS NOT NULL').run(fileId);
+    deleteUnusedSourceFiles(database);
+  })();
+}
+
+// Permanently delete files that have been in the trash longer than the retention period,
+// or every file in the trash with a retention of 0. Returns how many were purged.
+export function purgeExpiredFiles(retentionDays: number = TRASH_RETENTION_DAYS): number {
+  const database = getDatabase();
+  return auditedTransaction(database, 'purge', () => {
+    const purged = database.prepare(`
+      DELETE FROM uploaded_files
+      WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?)
+    `).run(`-${retentionDays} days`).changes;
+    deleteUnusedSourceFiles(database);
+    return purged;
+  })();
+}
 
-  for (const file of files) {
-    const records = getFileRecords(file.id);
-    const columns = getFileColumns(file.id);
+// Records of files that aren't in the trash, leaving out lessons hidden as duplicates
+const VISIBLE_RECORDS = `
+  FROM invoice_records r
+  JOIN uploaded_files f ON f.id = r.file_id
+  LEFT JOIN clients c ON c.id = r.client_id
+  WHERE f.deleted_at IS NULL AND ${visibleDuplicateOf('r')} IS NULL
+`;
+
+// A record as listed, with its database id and, once worked out, its kilometers
+export interface ListedRecord extends InvoiceRecord {
+  _dbId: number;
+  kilometers?: number;
+}
 
-    // Deserialize dates in records
-    for (const record of records) {
-      allRecords.push(deserializeRecord(record));
+// Rebuild records read in one query from several files, loading each file's columns once
+function readRecordRows(database: Database.Database, rows: RecordRow[]): ListedRecord[] {
+  const fileIds = Array.from(new Set(rows.map(row => row.file_id)));
+  const columnsByFile = new Map<number, string[]>(fileIds.map(id => [id, []]));
+  if (fileIds.length > 0) {
+    const columnRows = database.prepare(`
+      SELECT file_id, column_name FROM file_columns
+      WHERE file_id IN (${fileIds.map(() => '?').join(', ')})
+      ORDER BY id
+    `).all(...fileIds) as { file_id: number; column_name: string }[];
+    for (const { file_id, column_name } of columnRows) {
+      columnsByFile.get(file_id)!.push(column_name);
     }
+  }
+  const promotedByFile = new Map(
+    Array.from(columnsByFile.entries()).map(([id, columns]) => [id, getPromotedColumns(columns)])
+  );
 
-    columns.forEach(col => columnSet.add(col));
-    totalAmount += file.total_amount;
+  return rows.map(row => {
+    const record: ListedRecord = { ...deserializeRecord(joinRecord(row, promotedByFile.get(row.file_id)!)), _dbId: row.id };
+    if (row.kilometers !== null) {
+      record.kilometers = row.kilometers;
+    }
+    if (row.client !== null) {
+      record._clientName = row.client;
+    }
+    if (row.source !== 'upload') {
+      record._source = row.source;
+    }
+    return record;
+  });
+}
+
+// Every invoice that is listed, newest file first and each file's records in their
+// spreadsheet order, for exporting. The invoice list itself is read a page at a time.
+export function getAllInvoices(): { records: ListedRecord[]; columns: string[] } {
+  const database = getDatabase();
+  const rows = database.prepare(`
+    SELECT r.id, r.file_id, r.lesson_date, r.client_name, r.amount, r.start_time, r.duration_minutes,
+           r.record_data, r.kilometers, r.source, c.name AS client
+    ${VISIBLE_RECORDS}
+    ORDER BY f.uploaded_at DESC, f.id DESC, r.id
+  `).all() as RecordRow[];
+
+  const columns = (database.prepare(`
+    SELECT c.column_name FROM file_columns c
+    JOIN uploaded_files f ON f.id = c.file_id
+    WHERE f.deleted_at IS NULL
+    GROUP BY c.column_name
+    ORDER BY MIN(c.id)
+  `).all() as { column_name: string }[]).map(row => row.column_name);
+
+  return { records: readRecordRows(database, rows), columns };
+}
+
+// Lessons on the days that have a lesson without kilometers, for working out the routes of
+// those days. Each day's lessons are in the order they were uploaded in.
+export function getRecordsNeedingKilometers(): ListedRecord[] {
+  const database = getDatabase();
+  const rows = database.prepare(`
+    SELECT r.id, r.file_id, r.lesson_date, r.client_name, r.amount, r.start_time, r.duration_minutes,
+           r.record_data, r.kilometers, r.source, c.name AS client
+    ${VISIBLE_RECORDS}
+      AND r.lesson_date IN (
+        SELECT lesson_date FROM invoice_records
+        WHERE kilometers IS NULL AND lesson_date IS NOT NULL AND ${visibleDuplicateOf('invoice_records')} IS NULL
+          AND file_id IN (SELECT id FROM uploaded_files WHERE deleted_at IS NULL)
+      )
+    ORDER BY r.lesson_date, f.uploaded_at DESC, f.id DESC, r.id
+  `).all() as RecordRow[];
+  return readRecordRows(database, rows);
+}
+
+// What the invoice list can be filtered by
+export interface InvoiceFilterOptions {
+  clientNames: string[]; // Canonical names of linked clients, else the name in the invoice
+  firstDate: string | null; // YYYY-MM-DD
+  lastDate: string | null;
+}
+
+export function getInvoiceFilterOptions(): InvoiceFilterOptions {
+  const database = getDatabase();
+  const clientNames = (database.prepare(`
+    SELECT DISTINCT COALESCE(c.name, TRIM(r.client_name)) AS name
+    ${VISIBLE_RECORDS} AND COALESCE(c.name, TRIM(r.client_name), '') != ''
+    ORDER BY name
+  `).all() as { name: string }[]).map(row => row.name);
+  const dates = database.prepare(`
+    SELECT MIN(r.lesson_date) AS firstDate, MAX(r.lesson_date) AS lastDate ${VISIBLE_RECORDS}
+  `).get() as { firstDate: string | null; lastDate: string | null };
+  return { clientNames, ...dates };
+}
+
+const HOURS_GROUP_KEYS: Record<HoursGrouping, string> = {
+  day: 'r.lesson_date',
+  // The Monday of the lesson's week (strftime %w counts from Sunday)
+  week: `date(r.lesson_date, '-' || ((CAST(strftime('%w', r.lesson_date) AS INTEGER) + 6) % 7) || ' days')`,
+  client: `COALESCE(c.name, NULLIF(TRIM(r.client_name), ''), 'Unknown')`,
+};
+
+// Teaching hours and amounts of the listed lessons per day, week or client. For day and
+// week grouping, lessons without a lesson date are left out.
+export function getHoursReport(grouping: HoursGrouping): HoursReport {
+  const database = getDatabase();
+  const key = HOURS_GROUP_KEYS[grouping];
+  const rows = database.prepare(`
+    SELECT ${key} AS key,
+           COUNT(*) AS lessons,
+           COALESCE(SUM(r.duration_minutes), 0) AS minutes,
+           SUM(r.duration_minutes IS NULL) AS untimedLessons,
+           ROUND(COALESCE(SUM(r.amount), 0), 2) AS amount
+    ${VISIBLE_RECORDS} ${grouping === 'client' ? '' : 'AND r.lesson_date IS NOT NULL'}
+    GROUP BY ${key}
+    ORDER BY ${key}
+  `).all() as HoursReportRow[];
+
+  const totals = { lessons: 0, minutes: 0, untimedLessons: 0, amount: 0 };
+  for (const row of rows) {
+    totals.lessons += row.lessons;
+    totals.minutes += row.minutes;
+    totals.untimedLessons += row.untimedLessons;
+    totals.amount += row.amount;
   }
+  totals.amount = Math.round(totals.amount * 100) / 100;
+  return { rows, totals };
+}
+
+// What the invoice list can be sorted by. Lessons without a value sort last either way.
+export type InvoiceSortKey = 'date' | 'client' | 'amount' | 'startTime' | 'kilometers' | 'file';
+
+const SORT_EXPRESSIONS: Record<InvoiceSortKey, string> = {
+  date: 'r.lesson_date',
+  client: 'r.client_name COLLATE NOCASE',
+  amount: 'r.amount',
+  startTime: 'r.start_time',
+  kilometers: 'r.kilometers',
+  file: 'f.filename COLLATE NOCASE',
+};
+
+export interface InvoiceQuery {
+  from?: string; // YYYY-MM-DD, first lesson date included
+  to?: string; // YYYY-MM-DD, last lesson date included
+  clients?: string[];
+  fileId?: number;
+  sort?: InvoiceSortKey;
+  order?: 'asc' | 'desc';
+  page?: number; // From 1
+  pageSize?: number;
+}
+
+export interface InvoicePage {
+  records: ListedRecord[];
+  columns: string[]; // Columns of every file with a matching record
+  page: number;
+  pageSize: number;
+  total: number; // Records matching the filters, on all pages
+  totalAmount: number; // Sum of the amounts of all matching records
+  totalKilometers: number;
+}
+
+export const MAX_PAGE_SIZE = 500;
+
+// One page of the invoice list, filtered and sorted in SQL
+export function getInvoicePage(query: InvoiceQuery = {}): InvoicePage {
+  const database = getDatabase();
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.from) {
+    conditions.push('r.lesson_date >= ?');
+    params.push(query.from);
+  }
+  if (query.to) {
+    conditions.push('r.lesson_date <= ?');
+    params.push(query.to);
+  }
+  // A client matches by the name in the invoice or the name of the client it is linked to
+  if (query.clients && query.clients.length > 0) {
+    const placeholders = query.clients.map(() => '?').join(', ');
+    conditions.push(`(r.client_name COLLATE NOCASE IN (${placeholders}) OR c.name IN (${placeholders}))`);
+    params.push(...query.clients, ...query.clients);
+  }
+  if (query.fileId !== undefined) {
+    conditions.push('r.file_id = ?');
+    params.push(query.fileId);
+  }
+  const filtered = `${VISIBLE_RECORDS} ${conditions.map(condition => `AND ${condition}`).join(' ')}`;
+
+  const pageSize = Math.min(Math.max(1, Math.floor(query.pageSize || 50)), MAX_PAGE_SIZE);
+  const page = Math.max(1, Math.floor(query.page || 1));
+  const sort = SORT_EXPRESSIONS[query.sort || 'date'];
+  const order = query.order === 'desc' ? 'DESC' : 'ASC';
+
+  const totals = database.prepare(`
+    SELECT COUNT(*) AS total,
+           ROUND(COALESCE(SUM(r.amount), 0), 2) AS totalAmount,
+           ROUND(COALESCE(SUM(r.kilometers), 0), 1) AS totalKilometers
+    ${filtered}
+  `).get(...params) as { total: number; totalAmount: number; totalKilometers: number };
+
+  const rows = database.prepare(`
+    SELECT r.id, r.file_id, r.lesson_date, r.client_name, r.amount, r.start_time, r.duration_minutes,
+           r.record_data, r.kilometers, r.source, c.name AS client
+    ${filtered}
+    ORDER BY (${sort}) IS NULL, ${sort} ${order}, r.id ${order}
+    LIMIT ? OFFSET ?
+  `).all(...params, pageSize, (page - 1) * pageSize) as RecordRow[];
+
+  const columns = (database.prepare(`
+    SELECT column_name FROM file_columns
+    WHERE file_id IN (SELECT DISTINCT r.file_id ${filtered})
+    GROUP BY column_name
+    ORDER BY MIN(id)
+  `).all(...params) as { column_name: string }[]).map(row => row.column_name);
 
   return {
-    files,
-    records: allRecords,
-    columns: Array.from(columnSet),
-    totalAmount
+    records: readRecordRows(database, rows),
+    columns,
+    page,
+    pageSize,
+    ...totals
   };
 }
 
@@ -221,57 +760,62 @@ export interface DiffResult {
   removed: InvoiceRecord[];
   modified: { old: InvoiceRecord; new: InvoiceRecord }[];
   unchanged: number;
+  duplicateKeys: string[]; // Lesson keys shared by more than one record in either version
+  keptByHand: number; // Lessons added by hand that the new version doesn't have; they are kept
+}
+
+// Whether a new version of a file changes any of its lessons
+export function diffHasChanges(diff: DiffResult): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.modified.length > 0;
+}
+
+// What to do with one entry of a DiffResult: keep the uploaded record, take the new one,
+// drop both, or combine them field by field
+export type RecordChoice = 'keep' | 'take' | 'drop' | 'combine';
+
+export interface RecordResolution {
+  existingId: number | null; // _dbId of the uploaded record (removed and modified entries)
+  newIndex: number | null; // _newIndex of the new record (added and modified entries)
+  choice: RecordChoice;
+  fields?: { [field: string]: 'old' | 'new' }; // For 'combine'; fields not listed take the new value
+}
+
+// Key functions for matching a file's uploaded lessons with a new version of it
+function getRecordMatchers(existingFileId: number, data: ParsedInvoiceData): RecordKeyFunction[] {
+  const columns = [...new Set([...getFileColumns(existingFileId), ...data.columns])];
+  const identity = data.recordIdentity ?? resolveRecordIdentity('auto', columns);
+  return recordMatchers(identity, columns);
 }
 
 export function compareFileData(existingFileId: number, newData: ParsedInvoiceData): DiffResult {
   const existingRecords = getFileRecords(existingFileId).map(r => deserializeRecord(r));
-  const newRecords = newData.records;
-
+  const matchers = getRecordMatchers(existingFileId, newData);
+  // New records are tagged with their position so choices made on the diff can refer to them
+  const newRecords = newData.records.map((record, index) => ({ ...record, _newIndex: index }));
+  const { pairs, added, removed } = pairRecords(existingRecords, newRecords, matchers);
+
+  // Lessons sharing a key in either version are paired in order; report them so they can be checked
+  const duplicateKeys = [...new Set([
+    ...findDuplicateKeys(existingRecords, matchers[0]),
+    ...findDuplicateKeys(newData.records, matchers[0])
+  ])];
+
+  // Lessons added by hand were never in the spreadsheet, so their absence isn't a removal
   const diff: DiffResult = {
-    added: [],
-    removed: [],
+    added,
+    removed: removed.filter(record => record._source !== 'manual'),
     modified: [],
-    unchanged: 0
-  };
-
-  // Create a key function for comparing records (using Lesson Date + Client Name)
-  const getRecordKey = (record: InvoiceRecord): string => {
-    const date = record['Lesson Date'];
-    const dateStr = date instanceof Date ? date.toISOString() : String(date || '');
-    const client = String(record['Client Name'] || '');
-    return `${dateStr}|${client}`;
+    unchanged: 0,
+    duplicateKeys,
+    keptByHand: removed.filter(record => record._source === 'manual').length
   };
 
-  const existingByKey = new Map<string, InvoiceRecord>();
-  for (const record of existingRecords) {
-    existingByKey.set(getRecordKey(record), record);
-  }
-
-  const newByKey = new Map<string, InvoiceRecord>();
-  for (const record of newRecords) {
-    newByKey.set(getRecordKey(record), record);
-  }
-
-  // Find added and modified
-  for (const [key, newRecord] of newByKey) {
-    const existingRecord = existingByKey.get(key);
-    if (!existingRecord) {
-      diff.added.push(newRecord);
+  // Compare all fields of matched lessons
+  for (const pair of pairs) {
+    if (recordsEqual(pair.old, pair.new)) {
+      diff.unchanged++;
     } else {
-      // Compare all fields
-      const isModified = !recordsEqual(existingRecord, newRecord);
-      if (isModified) {
-        diff.modified.push({ old: existingRecord, new: newRecord });
-      } else {
-        diff.unchanged++;
-      }
-    }
-  }
-
-  // Find removed
-  for (const [key, existingRecord] of existingByKey) {
-    if (!newByKey.has(key)) {
-      diff.removed.push(existingRecord);
+      diff.modified.push(pair);
     }
   }
 
@@ -279,8 +823,8 @@ export function compareFileData(existingFileId: number, newData: ParsedInvoiceDa
 }
 
 function recordsEqual(a: InvoiceRecord, b: InvoiceRecord): boolean {
-  const aKeys = Object.keys(a).filter(k => a[k] !== null && a[k] !== undefined);
-  const bKeys = Object.keys(b).filter(k => b[k] !== null && b[k] !== undefined);
+  const aKeys = Object.keys(a).filter(k => a[k] !== null && a[k] !== undefined && !isAppField(k));
+  const bKeys = Object.keys(b).filter(k => b[k] !== null && b[k] !== undefined && !isAppField(k));
 
   if (aKeys.length !== bKeys.length) return false;
 
@@ -288,9 +832,7 @@ function recordsEqual(a: InvoiceRecord, b: InvoiceRecord): boolean {
     const aVal = a[key];
     const bVal = b[key];
 
-    if (aVal instanceof Date && bVal instanceof Date) {
-      if (aVal.getTime() !== bVal.getTime()) return false;
-    } else if (aVal !== bVal) {
+    if (aVal !== bVal) {
       return false;
     }
   }
@@ -298,78 +840,596 @@ function recordsEqual(a: InvoiceRecord, b: InvoiceRecord): boolean {
   return true;
 }
 
-function serializeRecord(record: InvoiceRecord): InvoiceRecord {
-  const serialized: InvoiceRecord = {};
-  for (const [key, value] of Object.entries(record)) {
-    if (value instanceof Date) {
-      serialized[key] = value.toISOString();
-    } else {
-      serialized[key] = value;
-    }
-  }
-  return serialized;
+// Lesson dates saved before calendar dates were introduced are ISO timestamps
+function deserializeRecord(record: InvoiceRecord): InvoiceRecord {
+  return normalizeRecordDates(record);
 }
 
-function deserializeRecord(record: InvoiceRecord): InvoiceRecord {
-  const deserialized: InvoiceRecord = {};
-  for (const [key, value] of Object.entries(record)) {
-    if (typeof value === 'string' && key.toLowerCase().includes('date')) {
-      // Try to parse as date
-      const date = new Date(value);
-      if (!isNaN(date.getTime())) {
-        deserialized[key] = date;
-      } else {
-        deserialized[key] = value;
-      }
-    } else {
-      deserialized[key] = value;
-    }
+// A file put together from more than one upload has no single total cell, so its total
+// is the sum of its lessons. Files without an amount column keep the total they were given.
+function recalculateFileTotal(database: Database.Database, fileId: number, promoted: PromotedColumns): void {
+  if (!promoted.amount) return;
+  database.prepare(`
+    UPDATE uploaded_files
+    SET total_amount = (SELECT ROUND(COALESCE(SUM(amount), 0), 2) FROM invoice_records WHERE file_id = ?),
+        line_items_total = (SELECT ROUND(COALESCE(SUM(amount), 0), 2) FROM invoice_records WHERE file_id = ?),
+        total_difference = 0
+    WHERE id = ?
+  `).run(fileId, fileId, fileId);
+}
+
+function samePromotedColumns(a: PromotedColumns, b: PromotedColumns): boolean {
+  return a.date === b.date && a.client === b.client && a.amount === b.amount;
+}
+
+// Lessons added or changed by hand are only overwritten or deleted when chosen in a review
+function isByHand(record: InvoiceRecord): boolean {
+  return record._source === 'manual' || record._source === 'edited';
+}
+
+// Mark lessons as matching their spreadsheet again, e.g. once the new version of an edited
+// lesson is taken
+function markUploaded(database: Database.Database, recordIds: number[]): void {
+  const markRecord = database.prepare(`UPDATE invoice_records SET source = 'upload' WHERE id = ?`);
+  for (const id of recordIds) {
+    markRecord.run(id);
   }
-  return deserialized;
 }
 
-export function replaceFile(existingFileId: number, filename: string, contentHash: string, data: ParsedInvoiceData): number {
+// Replace an uploaded file with a new version of it, in place. Unchanged lessons keep
+// their row as it is (id, kilometers and any edits), changed lessons are updated, and
+// only lessons missing from the new version are deleted. Kilometers of days that gain,
+// lose or move a lesson are cleared. Lessons added or changed by hand are kept as they
+// are, and the file total then becomes the sum of its lessons.
+export function replaceFile(
+  existingFileId: number,
+  filename: string,
+  contentHash: string,
+  data: ParsedInvoiceData,
+  sourceFileId?: number | null
+): number {
   const database = getDatabase();
-
-  const transaction = database.transaction(() => {
-    // Delete existing file (cascade will delete records and columns)
-    deleteFile(existingFileId);
-    // Save new file
-    return saveInvoiceData(filename, contentHash, data);
+  const existingRecords = getFileRecords(existingFileId);
+  const existingPromoted = getPromotedColumns(getFileColumns(existingFileId));
+  const promoted = getPromotedColumns(data.columns);
+  const { pairs, added, removed } = pairRecords(
+    existingRecords.map(deserializeRecord),
+    data.records,
+    getRecordMatchers(existingFileId, data)
+  );
+
+  // Unchanged rows are rewritten too if the typed columns now map to other headers;
+  // rows kept by hand are then rewritten with their own values
+  const rewriteAll = !samePromotedColumns(existingPromoted, promoted);
+  const keptByHand = [...pairs.map(pair => pair.old), ...removed].filter(isByHand);
+  const updates = [
+    ...pairs
+      .filter(pair => !isByHand(pair.old) && (rewriteAll || !recordsEqual(pair.old, pair.new)))
+      .map(pair => ({ id: pair.old._dbId as number, record: pair.new })),
+    ...(rewriteAll ? keptByHand.map(record => ({ id: record._dbId as number, record })) : [])
+  ];
+  // A lesson the spreadsheet now has exactly as it was entered by hand is an uploaded one again
+  const nowUploaded = pairs
+    .filter(pair => isByHand(pair.old) && recordsEqual(pair.old, pair.new))
+    .map(pair => pair.old._dbId as number);
+
+  const deletes = removed.filter(record => !isByHand(record)).map(record => record._dbId as number);
+
+  const transaction = auditedTransaction(database, 'replace', () => {
+    updateFileDetails(database, existingFileId, filename, contentHash, data, sourceFileId);
+    setFileColumns(database, existingFileId, data.columns);
+    const changedDays = [
+      ...updateRecords(database, updates, promoted),
+      ...recordDays(database, insertRecords(database, existingFileId, added, promoted)),
+      ...recordDays(database, deletes)
+    ];
+    deleteRecords(database, deletes);
+    clearDayKilometers(database, changedDays);
+    markUploaded(database, nowUploaded);
+    if (keptByHand.length > nowUploaded.length) {
+      recalculateFileTotal(database, existingFileId, promoted);
+    }
   });
 
-  return transaction();
+  transaction();
+  return existingFileId;
 }
 
-export function mergeFile(existingFileId: number, filename: string, contentHash: string, data: ParsedInvoiceData): number {
+// Add the lessons of a new version of a file that aren't uploaded yet. Existing lessons
+// are left as they are.
+export function mergeFile(
+  existingFileId: number,
+  filename: string,
+  contentHash: string,
+  data: ParsedInvoiceData,
+  sourceFileId?: number | null
+): number {
   const database = getDatabase();
   const existingRecords = getFileRecords(existingFileId);
   const existingColumns = getFileColumns(existingFileId);
   const existingFile = database.prepare('SELECT * FROM uploaded_files WHERE id = ?').get(existingFileId) as UploadedFile;
-
-  // Merge records (keeping existing + adding new)
-  const getRecordKey = (record: InvoiceRecord): string => {
-    const date = record['Lesson Date'];
-    const dateStr = date instanceof Date ? date.toISOString() : String(date || '');
-    const client = String(record['Client Name'] || '');
-    return `${dateStr}|${client}`;
-  };
-
-  const existingKeys = new Set(existingRecords.map(getRecordKey));
-  const newRecords = data.records.filter(r => !existingKeys.has(getRecordKey(r)));
+  const { added } = pairRecords(existingRecords.map(deserializeRecord), data.records, getRecordMatchers(existingFileId, data));
 
   const mergedData: ParsedInvoiceData = {
-    records: [...existingRecords.map(deserializeRecord), ...newRecords],
+    records: added,
     columns: [...new Set([...existingColumns, ...data.columns])],
-    totalAmount: (existingFile.total_amount || 0) + (data.totalAmount || 0)
+    // The new version's total covers the lessons of both; the line items total is worked out
+    // from the merged lessons below, and is unknown without an amount column
+    totalAmount: data.totalAmount || existingFile.total_amount || 0,
+    lineItemsTotal: null,
+    totalDifference: null,
+    sheetName: data.sheetName ?? existingFile.sheet_name ?? undefined,
+    metadata: data.metadata ?? {
+      invoiceNumber: existingFile.invoice_number,
+      issueDate: existingFile.issue_date,
+      billingPeriodStart: existingFile.billing_period_start,
+      billingPeriodEnd: existingFile.billing_period_end,
+      billTo: existingFile.bill_to
+    }
   };
+  const promoted = getPromotedColumns(mergedData.columns);
+
+  // Existing rows are only rewritten if the typed columns now map to other headers
+  const updates = samePromotedColumns(getPromotedColumns(existingColumns), promoted)
+    ? []
+    : existingRecords.map(record => ({ id: record._dbId as number, record }));
+
+  const transaction = auditedTransaction(database, 'merge', () => {
+    updateFileDetails(database, existingFileId, filename, contentHash, mergedData, sourceFileId);
+    setFileColumns(database, existingFileId, mergedData.columns);
+    clearDayKilometers(database, [
+      ...updateRecords(database, updates, promoted),
+      ...recordDays(database, insertRecords(database, existingFileId, added, promoted))
+    ]);
+    recalculateFileTotal(database, existingFileId, promoted);
+  });
 
-  const transaction = database.transaction(() => {
-    deleteFile(existingFileId);
-    return saveInvoiceData(filename, contentHash, mergedData);
+  transaction();
+  return existingFileId;
+}
+
+// Take each field from the old or the new version of a record
+function combineRecords(oldRecord: InvoiceRecord, newRecord: InvoiceRecord, fields: { [field: string]: 'old' | 'new' }): InvoiceRecord {
+  const combined: InvoiceRecord = {};
+  const keys = new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)].filter(key => !isAppField(key)));
+  for (const key of keys) {
+    const value = fields[key] === 'old' ? oldRecord[key] : newRecord[key];
+    if (value !== undefined) {
+      combined[key] = value;
+    }
+  }
+  return combined;
+}
+
+// Apply the choices made on a diff in one transaction. Entries without a resolution are
+// left alone: uploaded records stay as they are and new records aren't added. The file
+// total is recalculated from the resulting lessons.
+export function resolveFileDiff(
+  existingFileId: number,
+  filename: string,
+  contentHash: string,
+  data: ParsedInvoiceData,
+  resolutions: RecordResolution[],
+  sourceFileId?: number | null
+): number {
+  const database = getDatabase();
+  const existingRecords = getFileRecords(existingFileId).map(deserializeRecord);
+  const existingById = new Map(existingRecords.map(record => [record._dbId as number, record]));
+  const existingColumns = getFileColumns(existingFileId);
+  // Kept records may still have columns the new version doesn't
+  const columns = [...new Set([...existingColumns, ...data.columns])];
+  const promoted = getPromotedColumns(columns);
+
+  const updates = new Map<number, InvoiceRecord>();
+  const inserts: InvoiceRecord[] = [];
+  const deletes = new Set<number>();
+  const taken: number[] = []; // Lessons now as they are in the spreadsheet
+
+  for (const { existingId, newIndex, choice, fields } of resolutions) {
+    const oldRecord = existingId !== null ? existingById.get(existingId) : undefined;
+    const newRecord = newIndex !== null ? data.records[newIndex] : undefined;
+    if (existingId !== null && !oldRecord) {
+      throw new Error(`Record ${existingId} does not belong to this file`);
+    }
+    if (newIndex !== null && !newRecord) {
+      throw new Error(`The new version has no record ${newIndex}`);
+    }
+
+    if (choice === 'drop') {
+      if (oldRecord) deletes.add(existingId!);
+    } else if (choice === 'take') {
+      if (oldRecord && newRecord) {
+        updates.set(existingId!, newRecord);
+        taken.push(existingId!);
+      } else if (newRecord) {
+        inserts.push(newRecord);
+      } else if (oldRecord) {
+        // Taking the new version of a removed record removes it
+        deletes.add(existingId!);
+      }
+    } else if (choice === 'combine') {
+      if (!oldRecord || !newRecord) {
+        throw new Error('Only modified records can be combined field by field');
+      }
+      updates.set(existingId!, combineRecords(oldRecord, newRecord, fields || {}));
+    }
+  }
+
+  // Records left as they are are rewritten too if the typed columns now map to other headers
+  if (!samePromotedColumns(getPromotedColumns(existingColumns), promoted)) {
+    for (const [id, record] of existingById) {
+      if (!updates.has(id) && !deletes.has(id)) {
+        updates.set(id, record);
+      }
+    }
+  }
+
+  const transaction = auditedTransaction(database, 'resolve', () => {
+    updateFileDetails(database, existingFileId, filename, contentHash, { ...data, columns }, sourceFileId);
+    setFileColumns(database, existingFileId, columns);
+    const changedDays = [
+      ...updateRecords(database, Array.from(updates, ([id, record]) => ({ id, record })), promoted),
+      ...recordDays(database, insertRecords(database, existingFileId, inserts, promoted)),
+      ...recordDays(database, Array.from(deletes))
+    ];
+    deleteRecords(database, Array.from(deletes));
+    clearDayKilometers(database, changedDays);
+    markUploaded(database, taken);
+    recalculateFileTotal(database, existingFileId, promoted);
   });
 
-  return transaction();
+  transaction();
+  return existingFileId;
+}
+
+// Duplicate lesson functions. The same lesson can be uploaded in two differently named
+// files (e.g. "March.xlsx" and "March-final.xlsx") and would then be counted twice.
+export interface DuplicateLessonCopy {
+  recordId: number;
+  fileId: number;
+  filename: string;
+  sheetName: string | null;
+  duplicateOf: number | null; // Set when this copy is hidden
+}
+
+export interface DuplicateLessonGroup {
+  lessonDate: string;
+  clientName: string;
+  startTime: string | null;
+  amount: number | null;
+  copies: DuplicateLessonCopy[];
+}
+
+// Lessons with the same date, client, start time and amount in more than one file.
+// With a file id, only the groups that include a lesson of that file.
+export function findDuplicateLessons(fileId?: number): DuplicateLessonGroup[] {
+  const database = getDatabase();
+  const rows = database.prepare(`
+    SELECT r.id, r.file_id, r.lesson_date, r.client_name, r.start_time, r.amount, ${visibleDuplicateOf('r')} AS duplicate_of,
+           f.filename, f.sheet_name
+    FROM invoice_records r
+    JOIN uploaded_files f ON f.id = r.file_id
+    WHERE f.deleted_at IS NULL AND r.lesson_date IS NOT NULL AND r.client_name IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM invoice_records o
+        JOIN uploaded_files other_file ON other_file.id = o.file_id
+        WHERE other_file.deleted_at IS NULL
+          AND o.file_id != r.file_id
+          AND o.lesson_date = r.lesson_date
+          AND o.client_name = r.client_name COLLATE NOCASE
+          AND o.start_time IS r.start_time
+          AND o.amount IS r.amount
+      )
+    ORDER BY r.lesson_date, r.client_name COLLATE NOCASE, r.start_time, r.file_id, r.id
+  `).all() as {
+    id: number;
+    file_id: number;
+    lesson_date: string;
+    client_name: string;
+    start_time: string | null;
+    amount: number | null;
+    duplicate_of: number | null;
+    filename: string;
+    sheet_name: string | null;
+  }[];
+
+  const groups = new Map<string, DuplicateLessonGroup>();
+  for (const row of rows) {
+    const key = [row.lesson_date, row.client_name.toLowerCase(), row.start_time, row.amount].join(' | ');
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        lessonDate: row.lesson_date,
+        clientName: row.client_name,
+        startTime: row.start_time,
+        amount: row.amount,
+        copies: []
+      };
+      groups.set(key, group);
+    }
+    group.copies.push({
+      recordId: row.id,
+      fileId: row.file_id,
+      filename: row.filename,
+      sheetName: row.sheet_name,
+      duplicateOf: row.duplicate_of
+    });
+  }
+
+  return Array.from(groups.values())
+    .filter(group => fileId === undefined || group.copies.some(copy => copy.fileId === fileId));
+}
+
+// Hide a record as a copy of another one, or show it again with duplicateOf null.
+// Hidden records are left out of the invoice list, totals and kilometers.
+export function setRecordDuplicateOf(recordId: number, duplicateOf: number | null): void {
+  const database = getDatabase();
+  if (duplicateOf !== null) {
+    const records = database.prepare(`
+      SELECT id, file_id, duplicate_of FROM invoice_records WHERE id IN (?, ?)
+    `).all(recordId, duplicateOf) as { id: number; file_id: number; duplicate_of: number | null }[];
+    const record = records.find(r => r.id === recordId);
+    const original = records.find(r => r.id === duplicateOf);
+    if (!record || !original) {
+      throw new Error('Record not found');
+    }
+    if (record.file_id === original.file_id) {
+      throw new Error('A record can only be hidden as a copy of a lesson in another file');
+    }
+    if (original.duplicate_of !== null) {
+      throw new Error('The other copy of this lesson is hidden too');
+    }
+  }
+  auditedTransaction(database, duplicateOf === null ? 'show-duplicate' : 'hide-duplicate', () => {
+    database.prepare('UPDATE invoice_records SET duplicate_of = ? WHERE id = ?').run(duplicateOf, recordId);
+  })();
+}
+
+// Delete one copy of a lesson from its file; the file total becomes the sum of its lessons.
+// Lessons of files in the trash can't be deleted.
+export function deleteRecord(recordId: number): void {
+  const database = getDatabase();
+  const row = database.prepare(`
+    SELECT r.file_id, r.lesson_date
+    FROM invoice_records r JOIN uploaded_files f ON f.id = r.file_id
+    WHERE r.id = ? AND f.deleted_at IS NULL
+  `).get(recordId) as { file_id: number; lesson_date: string | null } | undefined;
+  if (!row) {
+    throw new Error('Record not found');
+  }
+
+  auditedTransaction(database, 'delete-record', () => {
+    clearDayKilometers(database, [row.lesson_date]);
+    deleteRecords(database, [recordId]);
+    recalculateFileTotal(database, row.file_id, getPromotedColumns(getFileColumns(row.file_id)));
+  })();
+}
+
+// Lesson entry functions. A lesson added by hand is saved in the columns of the file it is
+// added to; lessons that don't belong to an uploaded invoice go into a file of their own.
+export const MANUAL_ENTRIES_FILENAME = 'Manual entries';
+
+export interface LessonInput {
+  lessonDate: string; // YYYY-MM-DD
+  clientName: string;
+  amount: number | null;
+  startTime: string | null; // HH:MM
+  durationMinutes: number | null;
+}
+
+// Kilometers are worked out per day, so a lesson added, moved or removed changes the
+// kilometers of every lesson on its day; they are calculated again when next shown
+function clearDayKilometers(database: Database.Database, dates: (string | null)[]): void {
+  const clearDay = database.prepare('UPDATE invoice_records SET kilometers = NULL WHERE lesson_date = ? AND kilometers IS NOT NULL');
+  for (const date of new Set(dates)) {
+    if (date !== null) clearDay.run(date);
+  }
+}
+
+// The file for lessons added without one, created the first time it is needed. Its hash
+// can't match an uploaded spreadsheet's.
+function getManualEntriesFileId(database: Database.Database): number {
+  const existing = database.prepare(`
+    SELECT id FROM uploaded_files
+    WHERE filename = ? AND content_hash LIKE 'manual-entries-%' AND deleted_at IS NULL
+    ORDER BY id LIMIT 1
+  `).get(MANUAL_ENTRIES_FILENAME) as { id: number } | undefined;
+  if (existing) return existing.id;
+
+  const fileId = database.prepare(`
+    INSERT INTO uploaded_files (filename, content_hash, total_amount, line_items_total, total_difference)
+    VALUES (?, ?, 0, 0, 0)
+  `).run(MANUAL_ENTRIES_FILENAME, `manual-entries-${Date.now()}`).lastInsertRowid as number;
+  setFileColumns(database, fileId, [CANONICAL_COLUMNS.date, CANONICAL_COLUMNS.client, CANONICAL_COLUMNS.amount]);
+  return fileId;
+}
+
+// Put a lesson's values into the columns of its file
+function applyLessonInput(record: InvoiceRecord, input: LessonInput, promoted: PromotedColumns): InvoiceRecord {
+  if (!promoted.date || !promoted.client) {
+    throw new Error('This file has no lesson date or client column');
+  }
+  if (!promoted.amount && input.amount !== null) {
+    throw new Error('This file has no amount column');
+  }
+  const updated: InvoiceRecord = {
+    ...record,
+    [promoted.date]: input.lessonDate,
+    [promoted.client]: normalizeClientName(input.clientName),
+    startTime: input.startTime,
+    durationMinutes: input.durationMinutes,
+  };
+  if (promoted.amount) {
+    updated[promoted.amount] = input.amount;
+  }
+  return updated;
+}
+
+// Add a lesson by hand to a file, or to the manual entries file. Returns the new record's id.
+export function createLesson(input: LessonInput, fileId?: number): number {
+  const database = getDatabase();
+  if (fileId !== undefined) {
+    const file = database.prepare('SELECT deleted_at FROM uploaded_files WHERE id = ?').get(fileId) as
+      { deleted_at: string | null } | undefined;
+    if (!file || file.deleted_at !== null) {
+      throw new Error('File not found');
+    }
+  }
+
+  return auditedTransaction(database, 'add-lesson', () => {
+    const targetId = fileId ?? getManualEntriesFileId(database);
+    const promoted = getPromotedColumns(getFileColumns(targetId));
+    const [recordId] = insertRecords(database, targetId, [applyLessonInput({}, input, promoted)], promoted, 'manual');
+    clearDayKilometers(database, [input.lessonDate]);
+    recalculateFileTotal(database, targetId, promoted);
+    return recordId;
+  })();
+}
+
+// Change a lesson by hand. An uploaded lesson is marked as edited, so a re-upload of its
+// file doesn't overwrite the change unless chosen in the review. Lessons of files in the
+// trash can't be changed.
+export function updateLesson(recordId: number, input: LessonInput): void {
+  const database = getDatabase();
+  const row = database.prepare(`
+    SELECT r.file_id, r.lesson_date, r.client_name, r.amount, r.start_time, r.duration_minutes, r.record_data, r.source
+    FROM invoice_records r JOIN uploaded_files f ON f.id = r.file_id
+    WHERE r.id = ? AND f.deleted_at IS NULL
+  `).get(recordId) as (StoredRecord & { file_id: number; source: RecordSource }) | undefined;
+  if (!row) {
+    throw new Error('Record not found');
+  }
+
+  const promoted = getPromotedColumns(getFileColumns(row.file_id));
+  const record = applyLessonInput(deserializeRecord(joinRecord(row, promoted)), input, promoted);
+
+  auditedTransaction(database, 'edit-lesson', () => {
+    clearDayKilometers(database, updateRecords(database, [{ id: recordId, record }], promoted));
+    database.prepare('UPDATE invoice_records SET source = ? WHERE id = ?')
+      .run(row.source === 'manual' ? 'manual' : 'edited', recordId);
+    recalculateFileTotal(database, row.file_id, promoted);
+  })();
+}
+
+// Pending review functions. A re-uploaded file whose lessons differ from the uploaded
+// version waits here until the changes are resolved or discarded.
+export type PendingReviewStatus = 'pending' | 'postponed';
+
+export interface PendingReview {
+  id: number;
+  filename: string;
+  sheet_name: string | null;
+  existing_file_id: number;
+  content_hash: string;
+  source_file_id: number | null; // The workbook the new version was read from, when kept
+  status: PendingReviewStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// Queue a file for review. Uploading the same content again reuses its queue entry.
+export function savePendingReview(
+  filename: string,
+  existingFileId: number,
+  contentHash: string,
+  data: ParsedInvoiceData,
+  sourceFileId: number | null = null
+): number {
+  const database = getDatabase();
+  return auditedTransaction(database, 'review', () => {
+    database.prepare(`
+      INSERT INTO pending_reviews (filename, sheet_name, existing_file_id, content_hash, new_data, source_file_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(existing_file_id, content_hash) DO UPDATE SET
+        filename = excluded.filename,
+        new_data = excluded.new_data,
+        source_file_id = COALESCE(excluded.source_file_id, source_file_id),
+        status = 'pending',
+        updated_at = CURRENT_TIMESTAMP
+    `).run(filename, data.sheetName ?? null, existingFileId, contentHash, JSON.stringify(data), sourceFileId);
+
+    const row = database.prepare(`
+      SELECT id FROM pending_reviews WHERE existing_file_id = ? AND content_hash = ?
+    `).get(existingFileId, contentHash) as { id: number };
+    return row.id;
+  })();
+}
+
+// Pending reviews first, then postponed ones, oldest first
+export function getPendingReviews(): PendingReview[] {
+  const database = getDatabase();
+  return database.prepare(`
+    SELECT id, filename, sheet_name, existing_file_id, content_hash, source_file_id, status, created_at, updated_at
+    FROM pending_reviews
+    ORDER BY status = 'postponed', created_at
+  `).all() as PendingReview[];
+}
+
+export function getPendingReview(id: number): (PendingReview & { data: ParsedInvoiceData }) | undefined {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM pending_reviews WHERE id = ?').get(id) as (PendingReview & { new_data: string }) | undefined;
+  if (!row) return undefined;
+  const { new_data, ...review } = row;
+  return { ...review, data: JSON.parse(new_data) };
+}
+
+export function setPendingReviewStatus(id: number, status: PendingReviewStatus): void {
+  const database = getDatabase();
+  auditedTransaction(database, 'review', () => {
+    database.prepare(`
+      UPDATE pending_reviews SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(status, id);
+  })();
+}
+
+export function deletePendingReview(id: number): void {
+  const database = getDatabase();
+  auditedTransaction(database, 'review', () => {
+    database.prepare('DELETE FROM pending_reviews WHERE id = ?').run(id);
+    deleteUnusedSourceFiles(database);
+  })();
+}
+
+// Source file functions. The workbook each file was read from is kept as uploaded, so it
+// can be downloaded and read again after the parser or a layout profile changes.
+export interface SourceFile {
+  id: number;
+  filename: string;
+  content_hash: string; // SHA-256 of the content, as computed on upload
+  content: Buffer;
+  size: number;
+  created_at: string;
+}
+
+// Keep a workbook's bytes, once per content. Returns the id of the stored copy.
+export function saveSourceFile(filename: string, contentHash: string, content: Buffer): number {
+  const database = getDatabase();
+  database.prepare(`
+    INSERT INTO source_files (filename, content_hash, content, size)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(content_hash) DO NOTHING
+  `).run(filename, contentHash, content, content.length);
+  const row = database.prepare('SELECT id FROM source_files WHERE content_hash = ?').get(contentHash) as { id: number };
+  return row.id;
+}
+
+// The workbook an uploaded file was read from, if it was kept
+export function getSourceFile(fileId: number): SourceFile | undefined {
+  const database = getDatabase();
+  return database.prepare(`
+    SELECT s.* FROM source_files s
+    JOIN uploaded_files f ON f.source_file_id = s.id
+    WHERE f.id = ?
+  `).get(fileId) as SourceFile | undefined;
+}
+
+// Workbooks no file or review is read from any more are deleted
+function deleteUnusedSourceFiles(database: Database.Database): void {
+  database.prepare(`
+    DELETE FROM source_files
+    WHERE id NOT IN (SELECT source_file_id FROM uploaded_files WHERE source_file_id IS NOT NULL)
+      AND id NOT IN (SELECT source_file_id FROM pending_reviews WHERE source_file_id IS NOT NULL)
+  `).run();
 }
 
 // Distance cache functions
@@ -424,7 +1484,9 @@ export function clearDistanceCacheDb(): void {
 // Update kilometers for a specific invoice record
 export function updateInvoiceKilometers(recordId: number, kilometers: number): void {
   const database = getDatabase();
-  database.prepare('UPDATE invoice_records SET kilometers = ? WHERE id = ?').run(kilometers, recordId);
+  auditedTransaction(database, 'kilometers', () => {
+    database.prepare('UPDATE invoice_records SET kilometers = ? WHERE id = ?').run(kilometers, recordId);
+  })();
 }
 
 // Batch update kilometers for multiple records
@@ -432,7 +1494,7 @@ export function updateMultipleInvoiceKilometers(updates: { recordId: number; kil
   const database = getDatabase();
   const update = database.prepare('UPDATE invoice_records SET kilometers = ? WHERE id = ?');
 
-  const transaction = database.transaction(() => {
+  const transaction = auditedTransaction(database, 'kilometers', () => {
     for (const { recordId, kilometers } of updates) {
       update.run(kilometers, recordId);
     }
@@ -461,13 +1523,15 @@ export function getHomeAddressDb(): string | null {
 
 export function setHomeAddressDb(address: string): void {
   const database = getDatabase();
-  database.prepare(`
-    INSERT INTO addresses (address_type, client_name, address, updated_at)
-    VALUES ('home', NULL, ?, CURRENT_TIMESTAMP)
-    ON CONFLICT(address_type, client_name) DO UPDATE SET
-      address = excluded.address,
-      updated_at = CURRENT_TIMESTAMP
-  `).run(address);
+  auditedTransaction(database, 'address', () => {
+    database.prepare(`
+      INSERT INTO addresses (address_type, client_name, address, updated_at)
+      VALUES ('home', NULL, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(address_type, client_name) DO UPDATE SET
+        address = excluded.address,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(address);
+  })();
 }
 
 export function getClientAddressDb(clientName: string): string | null {
@@ -480,13 +1544,15 @@ export function getClientAddressDb(clientName: string): string | null {
 
 export function setClientAddressDb(clientName: string, address: string): void {
   const database = getDatabase();
-  database.prepare(`
-    INSERT INTO addresses (address_type, client_name, address, updated_at)
-    VALUES ('client', ?, ?, CURRENT_TIMESTAMP)
-    ON CONFLICT(address_type, client_name) DO UPDATE SET
-      address = excluded.address,
-      updated_at = CURRENT_TIMESTAMP
-  `).run(clientName, address);
+  auditedTransaction(database, 'address', () => {
+    database.prepare(`
+      INSERT INTO addresses (address_type, client_name, address, updated_at)
+      VALUES ('client', ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(address_type, client_name) DO UPDATE SET
+        address = excluded.address,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(clientName, address);
+  })();
 }
 
 export function getAllClientAddressesDb(): { [clientName: string]: string } {
@@ -504,9 +1570,11 @@ export function getAllClientAddressesDb(): { [clientName: string]: string } {
 
 export function removeClientAddressDb(clientName: string): void {
   const database = getDatabase();
-  database.prepare(`
-    DELETE FROM addresses WHERE address_type = 'client' AND client_name = ?
-  `).run(clientName);
+  auditedTransaction(database, 'address', () => {
+    database.prepare(`
+      DELETE FROM addresses WHERE address_type = 'client' AND client_name = ?
+    `).run(clientName);
+  })();
 }
 
 export function setAllClientAddressesDb(addresses: { [clientName: string]: string }): void {
@@ -518,7 +1586,7 @@ export function setAllClientAddressesDb(addresses: { [clientName: string]: strin
     VALUES ('client', ?, ?)
   `);
 
-  const transaction = database.transaction(() => {
+  const transaction = auditedTransaction(database, 'address', () => {
     deleteAll.run();
     for (const [clientName, address] of Object.entries(addresses)) {
       insert.run(clientName, address);
@@ -527,3 +1595,629 @@ export function setAllClientAddressesDb(addresses: { [clientName: string]: strin
 
   transaction();
 }
+
+// Client functions. Each client has a canonical name and any number of aliases; records
+// are linked to the client whose name or alias matches their client name.
+export interface Client {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClientAlias {
+  id: number;
+  client_id: number;
+  alias: string;
+}
+
+export interface ClientSummary extends Client {
+  aliases: ClientAlias[];
+  record_count: number;
+  address: string | null;
+}
+
+export interface ClientDetails {
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+}
+
+// A client name in the invoices that isn't linked to any client yet
+export interface UnmatchedClientName {
+  name: string;
+  record_count: number;
+  suggestions: ClientSuggestion[];
+}
+
+// The client whose name or one of whose aliases is this name, ignoring case and spacing
+function findClientIdByName(database: Database.Database, name: string): number | null {
+  const normalized = normalizeClientName(name);
+  const row = database.prepare(`
+    SELECT id FROM clients WHERE name = ?
+    UNION ALL
+    SELECT client_id FROM client_aliases WHERE alias = ?
+  `).get(normalized, normalized) as { id: number } | undefined;
+  return row ? row.id : null;
+}
+
+// Every client name and alias, to look for names similar to a new one
+function clientNameCandidates(database: Database.Database): { clientId: number; name: string; knownName: string }[] {
+  return database.prepare(`
+    SELECT id AS clientId, name, name AS knownName FROM clients
+    UNION ALL
+    SELECT c.id, c.name, a.alias FROM client_aliases a JOIN clients c ON c.id = a.client_id
+  `).all() as { clientId: number; name: string; knownName: string }[];
+}
+
+// Link records to the client their name matches, or to none. Given the names of records just
+// inserted or changed, only records with those names are linked, and names that match no
+// client and resemble none either become new clients; names that resemble a client are left
+// unlinked so the user can say whether they are the same person. Without names, every record
+// is linked again after the clients themselves changed.
+function linkRecordClients(database: Database.Database, names?: string[]): void {
+  const insertClient = database.prepare('INSERT INTO clients (name) VALUES (?)');
+  for (const name of names ?? []) {
+    const normalized = normalizeClientName(name);
+    if (normalized === '' || findClientIdByName(database, normalized) !== null) continue;
+    if (suggestClients(normalized, clientNameCandidates(database)).length === 0) {
+      insertClient.run(normalized);
+    }
+  }
+
+  const linkNames = names ?? (database.prepare(`
+    SELECT DISTINCT client_name FROM invoice_records WHERE client_name IS NOT NULL
+  `).all() as { client_name: string }[]).map(row => row.client_name);
+  const linkRecords = database.prepare(`
+    UPDATE invoice_records SET client_id = ? WHERE client_name = ? AND client_id IS NOT ?
+  `);
+  for (const name of linkNames) {
+    const clientId = findClientIdByName(database, name);
+    linkRecords.run(clientId, name, clientId);
+  }
+}
+
+// All clients by name, with their aliases, lesson counts and addresses
+export function getClients(): ClientSummary[] {
+  const database = getDatabase();
+  const clients = database.prepare(`
+    SELECT c.*,
+           (SELECT COUNT(*) FROM invoice_records r
+            JOIN uploaded_files f ON f.id = r.file_id
+            WHERE r.client_id = c.id AND f.deleted_at IS NULL) AS record_count,
+           (SELECT address FROM addresses a
+            WHERE a.address_type = 'client' AND a.client_name = c.name) AS address
+    FROM clients c
+    ORDER BY c.name
+  `).all() as Omit<ClientSummary, 'aliases'>[];
+  const aliases = database.prepare('SELECT id, client_id, alias FROM client_aliases ORDER BY alias').all() as ClientAlias[];
+
+  return clients.map(client => ({
+    ...client,
+    aliases: aliases.filter(alias => alias.client_id === client.id),
+  }));
+}
+
+export function getClient(id: number): Client | null {
+  const database = getDatabase();
+  return (database.prepare('SELECT * FROM clients WHERE id = ?').get(id) as Client | undefined) || null;
+}
+
+// Client names in files that aren't in the trash that aren't linked to a client, with the
+// clients they could belong to. Spellings that differ only in case or spacing are listed once.
+export function getUnmatchedClients(fileId?: number): UnmatchedClientName[] {
+  const database = getDatabase();
+  const rows = database.prepare(`
+    SELECT r.client_name AS name, COUNT(*) AS record_count
+    FROM invoice_records r
+    JOIN uploaded_files f ON f.id = r.file_id
+    WHERE r.client_id IS NULL AND r.client_name IS NOT NULL AND f.deleted_at IS NULL
+      ${fileId !== undefined ? 'AND r.file_id = ?' : ''}
+    GROUP BY r.client_name
+    ORDER BY r.client_name COLLATE NOCASE
+  `).all(...(fileId !== undefined ? [fileId] : [])) as { name: string; record_count: number }[];
+
+  const candidates = clientNameCandidates(database);
+  const unmatched = new Map<string, UnmatchedClientName>();
+  for (const row of rows) {
+    const name = normalizeClientName(row.name);
+    const key = name.toLowerCase();
+    const existing = unmatched.get(key);
+    if (existing) {
+      existing.record_count += row.record_count;
+    } else {
+      unmatched.set(key, { name, record_count: row.record_count, suggestions: suggestClients(name, candidates) });
+    }
+  }
+  return Array.from(unmatched.values());
+}
+
+const NAME_IN_USE = 'is already the name or alias of a client';
+
+// Throws if another client already has the name or alias
+function checkClientNameFree(database: Database.Database, name: string): void {
+  if (name === '') {
+    throw new Error('Client name is required');
+  }
+  if (findClientIdByName(database, name) !== null) {
+    throw new Error(`"${name}" ${NAME_IN_USE}`);
+  }
+}
+
+export function isClientNameConflict(error: unknown): boolean {
+  return error instanceof Error && error.message.includes(NAME_IN_USE);
+}
+
+const cleanDetail = (value: string | null | undefined): string | null => {
+  const text = (value ?? '').trim();
+  return text === '' ? null : text;
+};
+
+// Create a client and link the records with its name to it
+export function createClient(name: string, details: ClientDetails = {}): Client {
+  const database = getDatabase();
+  const normalized = normalizeClientName(name);
+
+  return auditedTransaction(database, 'client', () => {
+    checkClientNameFree(database, normalized);
+    const id = database.prepare(`
+      INSERT INTO clients (name, email, phone, notes) VALUES (?, ?, ?, ?)
+    `).run(normalized, cleanDetail(details.email), cleanDetail(details.phone), cleanDetail(details.notes))
+      .lastInsertRowid as number;
+    linkRecordClients(database);
+    return database.prepare('SELECT * FROM clients WHERE id = ?').get(id) as Client;
+  })();
+}
+
+// Update a client's contact details and notes
+export function updateClientDetails(id: number, details: ClientDetails): void {
+  const database = getDatabase();
+  auditedTransaction(database, 'client', () => {
+    const result = database.prepare(`
+      UPDATE clients SET email = ?, phone = ?, notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(cleanDetail(details.email), cleanDetail(details.phone), cleanDetail(details.notes), id);
+    if (result.changes === 0) {
+      throw new Error('Client not found');
+    }
+  })();
+}
+
+// Delete a client and its aliases. Its records are kept, no longer linked to a client.
+export function deleteClient(id: number): void {
+  const database = getDatabase();
+  auditedTransaction(database, 'client', () => {
+    database.prepare('DELETE FROM clients WHERE id = ?').run(id);
+  })();
+}
+
+// Add another spelling of a client's name and link the records with it. An address saved
+// under the alias moves to the client, unless the client already has one.
+export function addClientAlias(clientId: number, alias: string): ClientAlias {
+  const database = getDatabase();
+  const normalized = normalizeClientName(alias);
+
+  return auditedTransaction(database, 'client', () => {
+    const client = database.prepare('SELECT name FROM clients WHERE id = ?').get(clientId) as { name: string } | undefined;
+    if (!client) {
+      throw new Error('Client not found');
+    }
+    checkClientNameFree(database, normalized);
+
+    const id = database.prepare('INSERT INTO client_aliases (client_id, alias) VALUES (?, ?)')
+      .run(clientId, normalized).lastInsertRowid as number;
+    database.prepare(`
+      UPDATE addresses SET client_name = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE address_type = 'client' AND client_name = ? COLLATE NOCASE AND NOT EXISTS (
+        SELECT 1 FROM addresses WHERE address_type = 'client' AND client_name = ?
+      )
+    `).run(client.name, normalized, client.name);
+    linkRecordClients(database);
+    return { id, client_id: clientId, alias: normalized };
+  })();
+}
+
+// Remove an alias. Records with that name are no longer linked to the client.
+export function removeClientAlias(aliasId: number): void {
+  const database = getDatabase();
+  auditedTransaction(database, 'client', () => {
+    database.prepare('DELETE FROM client_aliases WHERE id = ?').run(aliasId);
+    linkRecordClients(database);
+  })();
+}
+
+// What merging or renaming a client would change, shown before it is applied
+export interface ClientChangePreview {
+  lessons: number; // Lessons whose client name is rewritten
+  files: number; // Files those lessons are in
+  kilometersCleared: number; // Lessons whose kilometers are cleared to be calculated again
+  address: string | null; // The client's address afterwards
+  addressDropped: string | null; // Address of the merged client, dropped because the other has its own
+}
+
+function getClientAddressByName(database: Database.Database, name: string): string | null {
+  const row = database.prepare(`
+    SELECT address FROM addresses WHERE address_type = 'client' AND client_name = ?
+  `).get(name) as { address: string } | undefined;
+  return row ? row.address : null;
+}
+
+function requireClient(database: Database.Database, id: number): Client {
+  const client = database.prepare('SELECT * FROM clients WHERE id = ?').get(id) as Client | undefined;
+  if (!client) {
+    throw new Error('Client not found');
+  }
+  return client;
+}
+
+// Kilometers are worked out per day along home -> client -> ... -> home, so a client's new
+// address changes the kilometers of every lesson on the days they had a lesson
+const SAME_DAY_LESSONS = `
+  lesson_date IN (
+    SELECT lesson_date FROM invoice_records WHERE client_id = ? AND lesson_date IS NOT NULL
+  ) AND kilometers IS NOT NULL
+`;
+
+// Lessons of files in the trash are changed too, but aren't counted
+function countClientChange(database: Database.Database, clientId: number, clearsKilometers: boolean) {
+  const { lessons, files } = database.prepare(`
+    SELECT COUNT(*) AS lessons, COUNT(DISTINCT r.file_id) AS files
+    FROM invoice_records r JOIN uploaded_files f ON f.id = r.file_id
+    WHERE r.client_id = ? AND f.deleted_at IS NULL
+  `).get(clientId) as { lessons: number; files: number };
+  const kilometersCleared = clearsKilometers
+    ? (database.prepare(`
+        SELECT COUNT(*) AS count FROM invoice_records r JOIN uploaded_files f ON f.id = r.file_id
+        WHERE f.deleted_at IS NULL AND ${SAME_DAY_LESSONS}
+      `).get(clientId) as { count: number }).count
+    : 0;
+  return { lessons, files, kilometersCleared };
+}
+
+export function previewClientMerge(sourceId: number, targetId: number): ClientChangePreview {
+  const database = getDatabase();
+  const source = requireClient(database, sourceId);
+  const target = requireClient(database, targetId);
+  const sourceAddress = getClientAddressByName(database, source.name);
+  const targetAddress = getClientAddressByName(database, target.name);
+  const address = targetAddress ?? sourceAddress;
+
+  return {
+    // Only the merged client's lessons are rewritten; their address is the one that can change
+    ...countClientChange(database, sourceId, sourceAddress !== address),
+    address,
+    addressDropped: sourceAddress !== null && targetAddress !== null && sourceAddress !== targetAddress
+      ? sourceAddress
+      : null,
+  };
+}
+
+// Renaming keeps the address, so kilometers stay as they are
+export function previewClientRename(id: number): ClientChangePreview {
+  const database = getDatabase();
+  const client = requireClient(database, id);
+  return {
+    ...countClientChange(database, id, false),
+    address: getClientAddressByName(database, client.name),
+    addressDropped: null,
+  };
+}
+
+// Write the client's name into every record linked to it. The name is dropped from
+// record_data, where a spelling that didn't fit the typed column was kept.
+function rewriteClientRecords(database: Database.Database, clientId: number, name: string): void {
+  const rows = database.prepare(`
+    SELECT id, file_id, record_data FROM invoice_records WHERE client_id = ?
+  `).all(clientId) as { id: number; file_id: number; record_data: string }[];
+  const update = database.prepare('UPDATE invoice_records SET client_name = ?, record_data = ? WHERE id = ?');
+  const promotedByFile = new Map<number, PromotedColumns>();
+
+  for (const row of rows) {
+    if (!promotedByFile.has(row.file_id)) {
+      promotedByFile.set(row.file_id, getPromotedColumns(getFileColumns(row.file_id)));
+    }
+    const clientColumn = promotedByFile.get(row.file_id)!.client;
+    const data = JSON.parse(row.record_data);
+    if (clientColumn) delete data[clientColumn];
+    update.run(name, JSON.stringify(data), row.id);
+  }
+}
+
+// Merge client source into target: its lessons take target's name, its name and aliases
+// become aliases of target, and its address and contact details fill in what target lacks.
+// Kilometers of the days it had lessons are cleared when its address changes.
+export function mergeClients(sourceId: number, targetId: number): void {
+  if (sourceId === targetId) {
+    throw new Error('A client cannot be merged into itself');
+  }
+  const database = getDatabase();
+
+  auditedTransaction(database, 'merge-clients', () => {
+    const source = requireClient(database, sourceId);
+    const target = requireClient(database, targetId);
+    const preview = previewClientMerge(sourceId, targetId);
+
+    if (preview.kilometersCleared > 0) {
+      database.prepare(`UPDATE invoice_records SET kilometers = NULL WHERE ${SAME_DAY_LESSONS}`).run(sourceId);
+    }
+
+    database.prepare('UPDATE invoice_records SET client_id = ? WHERE client_id = ?').run(targetId, sourceId);
+    rewriteClientRecords(database, targetId, target.name);
+
+    database.prepare(`
+      DELETE FROM addresses WHERE address_type = 'client' AND client_name = ?
+    `).run(source.name);
+    if (preview.address !== null) {
+      database.prepare(`
+        INSERT INTO addresses (address_type, client_name, address, updated_at)
+        VALUES ('client', ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(address_type, client_name) DO UPDATE SET
+          address = excluded.address,
+          updated_at = CURRENT_TIMESTAMP
+      `).run(target.name, preview.address);
+    }
+
+    database.prepare(`
+      UPDATE clients
+      SET email = COALESCE(email, ?), phone = COALESCE(phone, ?),
+          notes = CASE WHEN ? IS NULL THEN notes WHEN notes IS NULL THEN ? ELSE notes || char(10) || ? END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(source.email, source.phone, source.notes, source.notes, source.notes, targetId);
+
+    database.prepare('UPDATE client_aliases SET client_id = ? WHERE client_id = ?').run(targetId, sourceId);
+    database.prepare('DELETE FROM clients WHERE id = ?').run(sourceId);
+    database.prepare('INSERT INTO client_aliases (client_id, alias) VALUES (?, ?)').run(targetId, source.name);
+    linkRecordClients(database);
+  })();
+}
+
+// Rename a client and every lesson linked to it. The old name becomes an alias so
+// spreadsheets that still use it are linked to the client.
+export function renameClient(id: number, newName: string): void {
+  const database = getDatabase();
+  const name = normalizeClientName(newName);
+
+  auditedTransaction(database, 'rename-client', () => {
+    const client = requireClient(database, id);
+    if (name === client.name) return;
+
+    // The new name may be one of the client's own aliases, or the same name in another case
+    database.prepare('DELETE FROM client_aliases WHERE client_id = ? AND alias = ?').run(id, name);
+    if (name.toLowerCase() !== client.name.toLowerCase()) {
+      checkClientNameFree(database, name);
+    }
+
+    database.prepare('UPDATE clients SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(name, id);
+    if (name.toLowerCase() !== client.name.toLowerCase()) {
+      database.prepare('INSERT INTO client_aliases (client_id, alias) VALUES (?, ?)').run(id, client.name);
+    }
+    rewriteClientRecords(database, id, name);
+
+    // The client's address moves to the new name, replacing any saved under it before
+    if (getClientAddressByName(database, client.name) !== null) {
+      database.prepare(`DELETE FROM addresses WHERE address_type = 'client' AND client_name = ?`).run(name);
+      database.prepare(`
+        UPDATE addresses SET client_name = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE address_type = 'client' AND client_name = ?
+      `).run(name, client.name);
+    }
+    linkRecordClients(database);
+  })();
+}
+
+// Backup merge. Data in a backup that isn't in the current database is copied over;
+// nothing that is already here is changed.
+export interface BackupMergeResult {
+  filesAdded: number;
+  filesSkipped: number; // Already here, or a file of the same name is uploaded
+  layoutProfilesAdded: number;
+  addressesAdded: number;
+  clientsAdded: number;
+}
+
+function tableColumns(database: Database.Database, schema: string, table: string): string[] {
+  const columns = database.prepare(`PRAGMA ${schema}.table_info(${table})`).all() as { name: string }[];
+  return columns.map(column => column.name);
+}
+
+// Merge the database at backupPath, migrated to the current schema, into this one
+export function mergeBackupDatabase(backupPath: string): BackupMergeResult {
+  const database = getDatabase();
+  const result: BackupMergeResult = {
+    filesAdded: 0, filesSkipped: 0, layoutProfilesAdded: 0, addressesAdded: 0, clientsAdded: 0
+  };
+
+  database.prepare('ATTACH DATABASE ? AS backup').run(backupPath);
+  try {
+    const fileColumns = tableColumns(database, 'main', 'uploaded_files')
+      .filter(column => !['id', 'source_file_id'].includes(column));
+    const recordColumns = tableColumns(database, 'main', 'invoice_records')
+      .filter(column => !['id', 'file_id', 'duplicate_of', 'client_id'].includes(column));
+
+    const backupFiles = database.prepare('SELECT * FROM backup.uploaded_files ORDER BY id').all() as UploadedFile[];
+    const isPresent = database.prepare(`
+      SELECT 1 FROM main.uploaded_files
+      WHERE content_hash = ? OR (filename = ? AND sheet_name IS ? AND deleted_at IS NULL)
+    `);
+    const insertFile = database.prepare(`
+      INSERT INTO main.uploaded_files (${fileColumns.join(', ')})
+      SELECT ${fileColumns.join(', ')} FROM backup.uploaded_files WHERE id = ?
+    `);
+    const insertColumns = database.prepare(`
+      INSERT INTO main.file_columns (file_id, column_name)
+      SELECT ?, column_name FROM backup.file_columns WHERE file_id = ? ORDER BY id
+    `);
+    const insertRecords = database.prepare(`
+      INSERT INTO main.invoice_records (file_id, ${recordColumns.join(', ')})
+      SELECT ?, ${recordColumns.join(', ')} FROM backup.invoice_records WHERE file_id = ? ORDER BY id
+    `);
+    // The workbook a file was read from comes along, stored once per content
+    const insertSourceFile = database.prepare(`
+      INSERT INTO main.source_files (filename, content_hash, content, size, created_at)
+      SELECT filename, content_hash, content, size, created_at FROM backup.source_files WHERE id = ?
+      ON CONFLICT(content_hash) DO NOTHING
+    `);
+    const linkSourceFile = database.prepare(`
+      UPDATE main.uploaded_files SET source_file_id = (
+        SELECT m.id FROM main.source_files m
+        JOIN backup.source_files b ON b.content_hash = m.content_hash
+        WHERE b.id = ?
+      )
+      WHERE id = ?
+    `);
+
+    auditedTransaction(database, 'restore-backup', () => {
+      for (const file of backupFiles) {
+        if (isPresent.get(file.content_hash, file.filename, file.sheet_name)) {
+          result.filesSkipped++;
+          continue;
+        }
+        const fileId = insertFile.run(file.id).lastInsertRowid as number;
+        insertColumns.run(fileId, file.id);
+        insertRecords.run(fileId, file.id);
+        if (file.source_file_id !== null) {
+          insertSourceFile.run(file.source_file_id);
+          linkSourceFile.run(file.source_file_id, fileId);
+        }
+        result.filesAdded++;
+      }
+
+      result.layoutProfilesAdded = database.prepare(`
+        INSERT INTO main.layout_profiles (name, config, created_at, updated_at)
+        SELECT name, config, created_at, updated_at FROM backup.layout_profiles
+        WHERE name NOT IN (SELECT name FROM main.layout_profiles)
+      `).run().changes;
+
+      result.addressesAdded = database.prepare(`
+        INSERT INTO main.addresses (address_type, client_name, address, created_at, updated_at)
+        SELECT address_type, client_name, address, created_at, updated_at FROM backup.addresses b
+        WHERE NOT EXISTS (
+          SELECT 1 FROM main.addresses a
+          WHERE a.address_type = b.address_type AND a.client_name IS b.client_name
+        )
+      `).run().changes;
+
+      // Clients are matched by name; aliases another client already uses are left out
+      result.clientsAdded = database.prepare(`
+        INSERT INTO main.clients (name, email, phone, notes, created_at, updated_at)
+        SELECT name, email, phone, notes, created_at, updated_at FROM backup.clients
+        WHERE name NOT IN (SELECT name FROM main.clients)
+          AND name NOT IN (SELECT alias FROM main.client_aliases)
+      `).run().changes;
+      database.prepare(`
+        INSERT INTO main.client_aliases (client_id, alias, created_at)
+        SELECT c.id, a.alias, a.created_at
+        FROM backup.client_aliases a
+        JOIN backup.clients b ON b.id = a.client_id
+        JOIN main.clients c ON c.name = b.name
+        WHERE a.alias NOT IN (SELECT name FROM main.clients)
+          AND a.alias NOT IN (SELECT alias FROM main.client_aliases)
+      `).run();
+      linkRecordClients(database);
+
+      database.prepare(`
+        INSERT OR IGNORE INTO main.distance_cache (origin_address, destination_address, distance_km, created_at)
+        SELECT origin_address, destination_address, distance_km, created_at FROM backup.distance_cache
+      `).run();
+    })();
+  } finally {
+    database.prepare('DETACH DATABASE backup').run();
+  }
+
+  return result;
+}
+
+// Tables of a schema in an order where each comes after the tables it references
+function tablesByDependency(database: Database.Database, schema: string, tables: string[]): string[] {
+  const ordered: string[] = [];
+  const visiting = new Set<string>(); // A table referencing itself (or a cycle) is visited once
+  const visit = (table: string) => {
+    if (ordered.includes(table) || visiting.has(table)) return;
+    visiting.add(table);
+    const references = database.prepare(`PRAGMA ${schema}.foreign_key_list(${table})`).all() as { table: string }[];
+    for (const reference of references) {
+      if (tables.includes(reference.table)) visit(reference.table);
+    }
+    ordered.push(table);
+  };
+  tables.forEach(visit);
+  return ordered;
+}
+
+// Replace all data with the database at backupPath, migrated to the current schema. The
+// audit log isn't part of the data: it keeps its history, and every row the restore
+// removes or adds is logged with it.
+export function replaceWithBackupDatabase(backupPath: string): void {
+  const database = getDatabase();
+  database.prepare('ATTACH DATABASE ? AS backup').run(backupPath);
+  try {
+    const tables = tablesByDependency(database, 'main', (database.prepare(`
+      SELECT name FROM main.sqlite_master
+      WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+        AND name NOT IN ('audit_log', 'audit_context', 'schema_migrations')
+    `).all() as { name: string }[]).map(row => row.name));
+
+    auditedTransaction(database, 'restore-backup', () => {
+      database.pragma('defer_foreign_keys = ON');
+      // Rows that reference others go first, so nothing is cascaded or set to null on the way
+      for (const table of [...tables].reverse()) {
+        database.prepare(`DELETE FROM main.${table}`).run();
+      }
+      for (const table of tables) {
+        const columns = tableColumns(database, 'main', table).join(', ');
+        database.prepare(`INSERT INTO main.${table} (${columns}) SELECT ${columns} FROM backup.${table} ORDER BY rowid`).run();
+      }
+    })();
+  } finally {
+    database.prepare('DETACH DATABASE backup').run();
+  }
+}
+
+// Layout profile functions
+function rowToLayoutProfile(row: { id: number; name: string; config: string }): LayoutProfile {
+  // Normalizing fills in settings added since the profile was saved
+  return normalizeLayoutProfile({ ...JSON.parse(row.config), id: row.id, name: row.name });
+}
+
+export function getAllLayoutProfiles(): LayoutProfile[] {
+  const database = getDatabase();
+  const rows = database.prepare('SELECT id, name, config FROM layout_profiles ORDER BY name').all() as { id: number; name: string; config: string }[];
+  return rows.map(rowToLayoutProfile);
+}
+
+export function getLayoutProfile(id: number): LayoutProfile | undefined {
+  const database = getDatabase();
+  const row = database.prepare('SELECT id, name, config FROM layout_profiles WHERE id = ?').get(id) as { id: number; name: string; config: string } | undefined;
+  return row ? rowToLayoutProfile(row) : undefined;
+}
+
+export function createLayoutProfile(profile: LayoutProfile): number {
+  const database = getDatabase();
+  const { id, name, ...config } = profile;
+  return auditedTransaction(database, 'layout-profile', () => {
+    const result = database.prepare(`
+      INSERT INTO layout_profiles (name, config) VALUES (?, ?)
+    `).run(name, JSON.stringify(config));
+    return result.lastInsertRowid as number;
+  })();
+}
+
+export function updateLayoutProfile(id: number, profile: LayoutProfile): void {
+  const database = getDatabase();
+  const { id: _id, name, ...config } = profile;
+  auditedTransaction(database, 'layout-profile', () => {
+    database.prepare(`
+      UPDATE layout_profiles SET name = ?, config = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(name, JSON.stringify(config), id);
+  })();
+}
+
+export function deleteLayoutProfile(id: number): void {
+  const database = getDatabase();
+  auditedTransaction(database, 'layout-profile', () => {
+    database.prepare('DELETE FROM layout_profiles WHERE id = ?').run(id);
+  })();
+}
@@ -1,5 +1,39 @@
 import * as XLSX from 'xlsx';
-import { InvoiceRecord, ParsedInvoiceData } from './invoiceTypes';
+import {
+  InvoiceRecord,
+  ParsedInvoiceData,
+  ParsedWorkbook,
+  IgnoredSheet,
+  InvoiceMetadata,
+  LayoutProfile,
+  DateLocale,
+  DateOverrides,
+  ParseDiagnostic
+} from './invoiceTypes';
+import { DEFAULT_LAYOUT_PROFILE, CANONICAL_COLUMNS, columnLetterToIndex } from './layoutProfiles';
+import { readWorkbook } from './spreadsheetReader';
+import { resolveRecordIdentity, recordKeyFunction } from './recordIdentity';
+import {
+  findAmountColumn,
+  findStartTimeColumn,
+  findEndTimeColumn,
+  findDurationColumn,
+  parseCurrencyValue
+} from './invoiceColumns';
+import {
+  TimeOfDay,
+  DurationUnit,
+  readTimeOfDay,
+  readDurationMinutes,
+  durationBetween
+} from './lessonTime';
+import {
+  CalendarDate,
+  isCalendarDate,
+  toCalendarDate,
+  calendarDateFromExcelSerial,
+  calendarDateFromLocalDate
+} from './calendarDate';
 
 export function parseExcelFile(file: File): Promise<ParsedInvoiceData> {
   return new Promise((resolve, reject) => {
@@ -12,7 +46,7 @@ export function parseExcelFile(file: File): Promise<ParsedInvoiceData> {
           reject(new Error('Failed to read file as ArrayBuffer'));
           return;
         }
-        const parsed = parseExcelBuffer(result);
+        const parsed = parseWorkbook(result, [DEFAULT_LAYOUT_PROFILE], file.name).invoices[0];
         resolve(parsed);
       } catch (error) {
         reject(new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`));
@@ -27,332 +61,646 @@ export function parseExcelFile(file: File): Promise<ParsedInvoiceData> {
   });
 }
 
-function parseDate(value: any): Date | string | null {
-  if (!value) return null;
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// A date read from a cell, plus the other reading when day and month could be swapped
+interface DateReading {
+  date: CalendarDate;
+  alternative: CalendarDate | null;
+}
+
+// 1-based month from a name or abbreviation of at least three letters ("mar", "sept")
+function monthFromName(word: string): number | null {
+  if (word.length < 3) return null;
+  const index = MONTH_NAMES.findIndex(name => name.startsWith(word));
+  return index === -1 ? null : index + 1;
+}
+
+// Two-digit years are taken to be this century
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+}
+
+// Read a cell as a calendar date. Numeric day/month dates follow the layout's date
+// locale; ISO and textual-month dates are read the same way in every locale. There
+// is deliberately no fallback to new Date(string), which guesses US month-first.
+function readDate(value: any, locale: DateLocale): DateReading | null {
+  if (value === null || value === undefined || value === '') return null;
   
   // If it's already a Date object
   if (value instanceof Date) {
-    return value;
+    return isNaN(value.getTime()) ? null : { date: calendarDateFromLocalDate(value), alternative: null };
   }
   
   // If it's a number (Excel date serial number)
   if (typeof value === 'number') {
-    // Excel dates are days since 1900-01-01
-    const excelEpoch = new Date(1899, 11, 30);
-    const date = new Date(excelEpoch.getTime() + value * 86400000);
-    return date;
+    // Valid Excel dates are typically between 1 (Jan 1, 1900) and ~50000 (year 2037+)
+    if (value < 1 || value > 100000) return null;
+    return { date: calendarDateFromExcelSerial(value), alternative: null };
   }
   
-  // Try to parse as string date
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    
-    // Check for DD/MM/YYYY or DD-MM-YYYY format (always parse as day/month/year)
-    // This must be checked FIRST before any other parsing
-    const ddmmyyyyPattern = /^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})$/;
-    const match = trimmed.match(ddmmyyyyPattern);
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  
+  // YYYY-MM-DD or YYYY/MM/DD (ISO format), optionally followed by a time
+  const isoMatch = trimmed.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})(?:[T\s].*)?$/);
+  if (isoMatch) {
+    const date = toCalendarDate(parseInt(isoMatch[1], 10), parseInt(isoMatch[2], 10), parseInt(isoMatch[3], 10));
+    return date ? { date, alternative: null } : null;
+  }
+  
+  // DD/MM/YYYY or MM/DD/YYYY depending on the locale (also with - or . and two-digit years)
+  const numericMatch = trimmed.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/);
+  if (numericMatch) {
+    const first = parseInt(numericMatch[1], 10);
+    const second = parseInt(numericMatch[2], 10);
+    const year = expandYear(numericMatch[3]);
+    const [day, month] = locale === 'month-first' ? [second, first] : [first, second];
     
-    if (match) {
-      const firstPart = parseInt(match[1], 10);
-      const secondPart = parseInt(match[2], 10);
-      const year = parseInt(match[3], 10);
-      
-      // Always interpret as DD/MM/YYYY (first part = day, second part = month)
-      // Even if it could be MM/DD, we treat it as DD/MM
-      const day = firstPart;
-      const month = secondPart;
-      
-      // Validate month range
-      if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-        const date = new Date(year, month - 1, day);
-        // Verify the date is valid (handles cases like 31/02)
-        if (!isNaN(date.getTime()) && date.getDate() === day && date.getMonth() === month - 1) {
-          return date;
-        }
-      }
+    // Validates the ranges and rejects dates like 31/02
+    const date = toCalendarDate(year, month, day);
+    if (!date) return null;
+    const swapped = toCalendarDate(year, day, month);
+    return { date, alternative: swapped !== date ? swapped : null };
+  }
+  
+  // Textual months: "1 March 2024", "1-Mar-24", "Fri 1 Mar 2024", "March 1, 2024"
+  const text = trimmed.toLowerCase()
+    .replace(/,/g, ' ')
+    .replace(/^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?\s+/, '');
+  const dayFirstMatch = text.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s\-]+([a-z]+)\.?[\s\-]+(\d{2}|\d{4})$/);
+  const monthFirstMatch = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?\s+(\d{4})$/);
+  const [dayText, monthText, yearText] = dayFirstMatch
+    ? [dayFirstMatch[1], dayFirstMatch[2], dayFirstMatch[3]]
+    : monthFirstMatch
+      ? [monthFirstMatch[2], monthFirstMatch[1], monthFirstMatch[3]]
+      : [];
+  if (dayText && monthText && yearText) {
+    const month = monthFromName(monthText);
+    const date = month ? toCalendarDate(expandYear(yearText), month, parseInt(dayText, 10)) : null;
+    return date ? { date, alternative: null } : null;
+  }
+  
+  return null;
+}
+
+// Date for a record field: the calendar date, or the raw text if it can't be read
+function parseDate(value: any, locale: DateLocale): CalendarDate | string | null {
+  if (!value) return null;
+  const reading = readDate(value, locale);
+  return reading ? reading.date : String(value);
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function rowMatchesHeader(row: any[] | undefined, profile: LayoutProfile): boolean {
+  if (!row) return false;
+  const rowText = row.map((cell: any) => String(cell || '').toLowerCase().trim()).join(' ');
+  return profile.headerKeywords.some(term => rowText.includes(term));
+}
+
+// Returns the 0-based index of the header row, or -1 if the sheet doesn't match the profile
+function findHeaderRow(jsonData: any[][], profile: LayoutProfile): number {
+  // First try the profile's preferred header row
+  if (profile.headerRow !== null && rowMatchesHeader(jsonData[profile.headerRow - 1], profile)) {
+    return profile.headerRow - 1;
+  }
+
+  // Otherwise search the profile's header range
+  const lastRow = Math.min(profile.headerSearchEnd, jsonData.length);
+  for (let i = profile.headerSearchStart - 1; i < lastRow; i++) {
+    if (rowMatchesHeader(jsonData[i], profile)) {
+      return i;
     }
-    
-    // Check for YYYY-MM-DD or YYYY/MM/DD format (ISO format)
-    const yyyymmddPattern = /^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})$/;
-    const isoMatch = trimmed.match(yyyymmddPattern);
-    
-    if (isoMatch) {
-      const year = parseInt(isoMatch[1], 10);
-      const month = parseInt(isoMatch[2], 10);
-      const day = parseInt(isoMatch[3], 10);
-      const date = new Date(year, month - 1, day);
-      if (!isNaN(date.getTime())) {
-        return date;
+  }
+
+  return -1;
+}
+
+// Labels looked for above the header row when the layout profile doesn't name a cell.
+// Matched against the cell text before any ':' (e.g. "Invoice No: 1042").
+const INVOICE_NUMBER_LABEL = /^(tax\s+)?inv(oice)?\.?\s*(no\.?|number|num|#)$/;
+const ISSUE_DATE_LABEL = /^(issue date|date issued|date of issue|invoice date|date)$/;
+const BILLING_PERIOD_LABEL = /^(billing period|invoice period|period)$/;
+const PERIOD_START_LABEL = /^(billing |invoice )?period (start|from)$/;
+const PERIOD_END_LABEL = /^(billing |invoice )?period (end|to)$/;
+const BILL_TO_LABEL = /^(bill(ed)? to|invoice to)$/;
+
+// Separates the two dates of a period written in one cell, e.g. "01/03/2024 - 31/03/2024"
+const PERIOD_SEPARATOR = /\s+(?:-|–|to)\s+/i;
+
+function isBlank(value: any): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function getCellValue(jsonData: any[][], cellRef: string): any {
+  const { r, c } = XLSX.utils.decode_cell(cellRef);
+  return jsonData[r]?.[c] ?? null;
+}
+
+// Find a labelled value: text after the label's ':', else the next cell to the right,
+// else the cell below (or every non-empty cell below, for multi-line blocks like an address)
+function findLabelledValue(rows: any[][], label: RegExp, collectBelow: boolean = false): any {
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r] || [];
+    for (let c = 0; c < row.length; c++) {
+      const cell = row[c];
+      if (typeof cell !== 'string') continue;
+
+      const [labelText, ...rest] = cell.split(':');
+      if (!label.test(labelText.trim().toLowerCase())) continue;
+
+      const inlineValue = rest.join(':').trim();
+      if (inlineValue) return inlineValue;
+
+      const right = row.slice(c + 1).find((value: any) => !isBlank(value));
+      if (right !== undefined) return right;
+
+      const below: any[] = [];
+      for (let b = r + 1; b < rows.length && !isBlank(rows[b]?.[c]); b++) {
+        below.push(rows[b][c]);
+        if (!collectBelow) break;
+      }
+      if (below.length > 0) {
+        return below.map(value => String(value).trim()).join(', ');
       }
     }
-    
-    // Don't use standard Date parsing as fallback - it interprets as MM/DD/YYYY
-    // If we can't parse it explicitly, return as string
   }
-  
-  // Return as string if can't parse
-  return String(value);
+  return null;
 }
 
-function parseCurrencyValue(value: any): number {
-  if (value === null || value === undefined) return 0;
-  
-  // If it's already a number
-  if (typeof value === 'number') {
+// Read the invoice details from the rows above the header row
+function extractMetadata(
+  jsonData: any[][],
+  headerRowIndex: number,
+  profile: LayoutProfile,
+  diagnostics: ParseDiagnostic[]
+): InvoiceMetadata {
+  const rowsAboveHeader = jsonData.slice(0, headerRowIndex);
+
+  // Use the profile's cell when it names one, otherwise search for the label
+  const lookup = (cellRef: string | null, label: RegExp, fieldName: string, collectBelow: boolean = false): any => {
+    if (!cellRef) {
+      return findLabelledValue(rowsAboveHeader, label, collectBelow);
+    }
+    const value = getCellValue(jsonData, cellRef);
+    if (isBlank(value)) {
+      diagnostics.push({
+        row: XLSX.utils.decode_cell(cellRef).r + 1,
+        severity: 'warning',
+        code: 'METADATA_CELL_MISSING',
+        message: `No ${fieldName} found in cell ${cellRef}`,
+        value: cellRef
+      });
+    }
     return value;
+  };
+
+  const toText = (value: any): string | null => isBlank(value) ? null : String(value).trim();
+
+  const toDate = (value: any, fieldName: string): CalendarDate | null => {
+    if (isBlank(value)) return null;
+    const date = parseDate(typeof value === 'string' ? value.trim() : value, profile.dateLocale);
+    if (isCalendarDate(date)) return date;
+    diagnostics.push({
+      row: null,
+      severity: 'warning',
+      code: 'INVALID_METADATA',
+      message: `The ${fieldName} is not a valid date`,
+      value
+    });
+    return null;
+  };
+
+  let periodStart = lookup(profile.billingPeriodStartCell, PERIOD_START_LABEL, 'billing period start');
+  let periodEnd = lookup(profile.billingPeriodEndCell, PERIOD_END_LABEL, 'billing period end');
+  if (isBlank(periodStart) && !profile.billingPeriodStartCell) {
+    periodStart = findLabelledValue(rowsAboveHeader, BILLING_PERIOD_LABEL);
   }
-  
-  // If it's a string, remove currency symbols and parse
-  if (typeof value === 'string') {
-    // Remove $, commas, and whitespace
-    const cleaned = value.replace(/[$,\s]/g, '');
-    const parsed = parseFloat(cleaned);
-    return isNaN(parsed) ? 0 : parsed;
+  // The whole period may be written in one cell
+  if (typeof periodStart === 'string' && isBlank(periodEnd)) {
+    const parts = periodStart.split(PERIOD_SEPARATOR);
+    if (parts.length === 2) {
+      [periodStart, periodEnd] = parts;
+    }
   }
-  
-  return 0;
+
+  return {
+    invoiceNumber: toText(lookup(profile.invoiceNumberCell, INVOICE_NUMBER_LABEL, 'invoice number')),
+    issueDate: toDate(lookup(profile.issueDateCell, ISSUE_DATE_LABEL, 'issue date'), 'issue date'),
+    billingPeriodStart: toDate(periodStart, 'billing period start'),
+    billingPeriodEnd: toDate(periodEnd, 'billing period end'),
+    billTo: toText(lookup(profile.billToCell, BILL_TO_LABEL, 'bill-to details', true)),
+  };
 }
 
-function isValidDate(value: any): boolean {
-  if (value === null || value === undefined) return false;
-  
-  // If it's already a Date object
-  if (value instanceof Date) {
-    return !isNaN(value.getTime());
+// A string result is the reason the sheet was ignored
+type SheetParseResult = ParsedInvoiceData | string;
+
+// Parse one worksheet. Each profile is tried in order and the first one whose
+// header row is found is used.
+function parseWorksheet(
+  worksheet: XLSX.WorkSheet,
+  sheetName: string,
+  profiles: LayoutProfile[],
+  dateOverrides: { [row: number]: CalendarDate } = {}
+): SheetParseResult {
+  if (!worksheet['!ref']) {
+    return 'Sheet is empty';
   }
   
-  // If it's a number (Excel date serial number)
-  if (typeof value === 'number') {
-    // Excel dates are days since 1900-01-01
-    // Valid Excel dates are typically between 1 (Jan 1, 1900) and ~50000 (year 2037+)
-    if (value < 1 || value > 100000) return false;
-    const excelEpoch = new Date(1899, 11, 30);
-    const date = new Date(excelEpoch.getTime() + value * 86400000);
-    return !isNaN(date.getTime());
+  // Read as array to access specific rows
+  // Use raw: true to get raw values, then we'll parse dates ourselves
+  // The range starts at A1 so row and column positions match the spreadsheet
+  const usedRange = XLSX.utils.decode_range(worksheet['!ref']);
+  const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
+    header: 1,
+    defval: null,
+    raw: true,  // Get raw values so we can parse dates ourselves as DD/MM/YYYY
+    blankrows: true, // Keep blank rows to maintain row numbers
+    range: { s: { r: 0, c: 0 }, e: usedRange.e }
+  }) as any[][];
+  
+  if (jsonData.length === 0) {
+    return 'Sheet is empty';
   }
   
-  // Try to parse as string date
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    if (trimmed === '') return false;
-    
-    // Try standard Date parsing
-    const parsed = new Date(trimmed);
-    if (!isNaN(parsed.getTime())) {
-      return true;
+  // Pick the first layout profile whose header row can be found
+  let profile: LayoutProfile | null = null;
+  let headerRowIndex = -1;
+  for (const candidate of profiles) {
+    headerRowIndex = findHeaderRow(jsonData, candidate);
+    if (headerRowIndex !== -1) {
+      profile = candidate;
+      break;
     }
-    
-    // Try common date formats that Excel might use
-    // DD/MM/YYYY, MM/DD/YYYY, DD-MM-YYYY, etc.
-    const datePatterns = [
-      /^\d{1,2}\/\d{1,2}\/\d{4}$/,  // DD/MM/YYYY or MM/DD/YYYY
-      /^\d{1,2}-\d{1,2}-\d{4}$/,    // DD-MM-YYYY or MM-DD-YYYY
-      /^\d{4}-\d{1,2}-\d{1,2}$/,    // YYYY-MM-DD
-      /^\d{4}\/\d{1,2}\/\d{1,2}$/,  // YYYY/MM/DD
-    ];
-    
-    if (datePatterns.some(pattern => pattern.test(trimmed))) {
-      // Try parsing with different assumptions
-      const parts = trimmed.split(/[\/\-]/);
-      if (parts.length === 3) {
-        // Try YYYY-MM-DD first (ISO format)
-        if (parts[0].length === 4) {
-          const testDate = new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
-          if (!isNaN(testDate.getTime())) return true;
-        }
-        // Try DD/MM/YYYY or MM/DD/YYYY
-        const testDate1 = new Date(parseInt(parts[2]), parseInt(parts[1]) - 1, parseInt(parts[0]));
-        const testDate2 = new Date(parseInt(parts[2]), parseInt(parts[0]) - 1, parseInt(parts[1]));
-        if (!isNaN(testDate1.getTime()) || !isNaN(testDate2.getTime())) {
-          return true;
-        }
-      }
+  }
+  
+  if (!profile) {
+    console.log(`Could not find header row in sheet "${sheetName}". First 15 rows:`, jsonData.slice(0, 15));
+    return 'No header row matching the layout profiles';
+  }
+  
+  // Extract headers from the detected row, keeping each header's column index
+  const headerRow = jsonData[headerRowIndex];
+  const headerCells = headerRow
+    .map((h: any, index: number) => ({ name: String(h || '').trim(), index }))
+    .filter((cell: { name: string }) => cell.name !== '');
+  
+  // Rename the columns the profile maps so the rest of the app can find them
+  const mappedColumns: [string | null, string][] = [
+    [profile.dateColumn, CANONICAL_COLUMNS.date],
+    [profile.clientColumn, CANONICAL_COLUMNS.client],
+    [profile.amountColumn, CANONICAL_COLUMNS.amount],
+    [profile.bookingIdColumn, CANONICAL_COLUMNS.bookingId],
+  ];
+  for (const [column, canonicalName] of mappedColumns) {
+    if (!column) continue;
+    const index = columnLetterToIndex(column);
+    const cell = headerCells.find((c: { index: number }) => c.index === index);
+    if (cell) {
+      cell.name = canonicalName;
+    } else {
+      headerCells.push({ name: canonicalName, index });
     }
   }
+  headerCells.sort((a: { index: number }, b: { index: number }) => a.index - b.index);
+  const headers: string[] = headerCells.map((cell: { name: string }) => cell.name);
   
-  return false;
-}
-
-export function parseExcelBuffer(buffer: ArrayBuffer): ParsedInvoiceData {
-  try {
-    const data = new Uint8Array(buffer);
-    const workbook = XLSX.read(data, { type: 'array' });
+  console.log(`Found headers in sheet "${sheetName}" at row ${headerRowIndex + 1} using layout "${profile.name}":`, headers);
+  
+  const records: InvoiceRecord[] = [];
+  const recordRows: number[] = []; // Spreadsheet row of each record
+  const diagnostics: ParseDiagnostic[] = [];
+  const dateColumnIndex = columnLetterToIndex(profile.dateColumn);
+  
+  // Start times and lesson lengths are normalized into startTime and durationMinutes
+  const startTimeColumn = findStartTimeColumn(headers);
+  const endTimeColumn = findEndTimeColumn(headers);
+  const durationColumn = findDurationColumn(headers);
+  const durationUnit: DurationUnit = durationColumn && /\b(minutes|mins)\b/i.test(durationColumn) ? 'minutes' : 'hours';
+  
+  // The billing period is needed to check the lesson dates
+  const metadata = extractMetadata(jsonData, headerRowIndex, profile, diagnostics);
+  const period = metadata.billingPeriodStart && metadata.billingPeriodEnd
+    ? { start: metadata.billingPeriodStart, end: metadata.billingPeriodEnd }
+    : null;
+  const isInPeriod = (date: CalendarDate) => !period || (date >= period.start && date <= period.end);
+  
+  const isEmptyRow = (row: any[]) => row.every((cell: any) => cell === null || cell === '');
+  
+  // Blank rows after the last row with data are formatting, not ignored data
+  let lastRowIndex = jsonData.length - 1;
+  while (lastRowIndex > headerRowIndex && isEmptyRow(jsonData[lastRowIndex])) {
+    lastRowIndex--;
+  }
+  
+  // Process data rows starting from the row after headers
+  for (let i = headerRowIndex + 1; i <= lastRowIndex; i++) {
+    const row = jsonData[i];
+    const rowNumber = i + 1;
     
-    // Get the first sheet
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
+    if (isEmptyRow(row)) {
+      diagnostics.push({ row: rowNumber, severity: 'info', code: 'EMPTY_ROW', message: 'Row is empty' });
+      continue;
+    }
     
-    // Read as array to access specific rows
-    // Use raw: true to get raw values, then we'll parse dates ourselves
-    const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-      header: 1,
-      defval: null,
-      raw: true,  // Get raw values so we can parse dates ourselves as DD/MM/YYYY
-      blankrows: true // Keep blank rows to maintain row numbers
-    }) as any[][];
+    if (profile.skipRows.includes(rowNumber)) {
+      diagnostics.push({
+        row: rowNumber,
+        severity: 'info',
+        code: 'SKIPPED_ROW',
+        message: 'Row is listed as skipped in the layout profile'
+      });
+      continue;
+    }
     
-    if (jsonData.length === 0) {
-      console.log('Excel file is empty');
-      return { records: [], columns: [] };
+    // Skip rows that look like totals rows (e.g., first cell contains "Total" or "Totals")
+    const firstCell = row.find((cell: any) => cell !== null && cell !== '');
+    const firstCellText = String(firstCell ?? '').toLowerCase();
+    if (profile.skipRowKeywords.some(keyword => firstCellText.includes(keyword))) {
+      diagnostics.push({
+        row: rowNumber,
+        severity: 'info',
+        code: 'TOTALS_ROW',
+        message: 'Row looks like a totals row',
+        value: firstCell
+      });
+      continue;
     }
     
-    // Auto-detect header row by looking for "Lesson Date" or "Client Name"
-    let headerRowIndex = -1;
-    const searchTerms = ['lesson date', 'client name'];
+    // Check the date column - must be a valid date
+    const dateCellValue = row[dateColumnIndex];
+    const reading = readDate(dateCellValue, profile.dateLocale);
     
-    // First try row 10 (index 9) as specified
-    if (jsonData.length > 9) {
-      const row10 = jsonData[9];
-      const row10Text = row10.map((cell: any) => String(cell || '').toLowerCase().trim()).join(' ');
-      if (searchTerms.some(term => row10Text.includes(term))) {
-        headerRowIndex = 9;
-      }
+    if (!reading) {
+      // Skip this row if the date column is not a valid date
+      diagnostics.push({
+        row: rowNumber,
+        severity: 'warning',
+        code: 'NOT_A_DATE',
+        message: `Column ${profile.dateColumn} is not a valid date`,
+        value: dateCellValue ?? null
+      });
+      continue;
     }
     
-    // If not found at row 10, search from row 5 to row 15
-    if (headerRowIndex === -1) {
-      for (let i = 4; i < Math.min(15, jsonData.length); i++) {
-        const row = jsonData[i];
-        const rowText = row.map((cell: any) => String(cell || '').toLowerCase().trim()).join(' ');
-        if (searchTerms.some(term => rowText.includes(term))) {
-          headerRowIndex = i;
-          break;
+    // A date picked by the user wins (checked by the upload route; anything else is ignored).
+    // Otherwise, when day and month could be swapped, prefer the reading inside the billing
+    // period and flag the row either way.
+    let lessonDate = reading.date;
+    const override = dateOverrides[rowNumber];
+    if (isCalendarDate(override)) {
+      lessonDate = override;
+    } else {
+      let alternatives = [reading.date];
+      if (reading.alternative) {
+        if (!isInPeriod(reading.date) && isInPeriod(reading.alternative)) {
+          lessonDate = reading.alternative;
+          alternatives = [reading.alternative, reading.date];
+        } else {
+          alternatives = [reading.date, reading.alternative];
         }
+        diagnostics.push({
+          row: rowNumber,
+          severity: 'warning',
+          code: 'AMBIGUOUS_DATE',
+          message: `Date could be ${alternatives[0]} or ${alternatives[1]}; read as ${alternatives[0]}`,
+          value: dateCellValue,
+          alternatives
+        });
+      }
+      if (period && !isInPeriod(lessonDate)) {
+        diagnostics.push({
+          row: rowNumber,
+          severity: 'warning',
+          code: 'DATE_OUTSIDE_PERIOD',
+          message: `Lesson date ${lessonDate} is outside the billing period ${period.start} to ${period.end}`,
+          value: dateCellValue,
+          alternatives
+        });
       }
     }
     
-    if (headerRowIndex === -1) {
-      console.log('Could not find header row. First 15 rows:', jsonData.slice(0, 15));
-      throw new Error('Could not find header row with "Lesson Date" or "Client Name". Please ensure the column headers are present.');
-    }
-    
-    // Extract headers from the detected row
-    const headerRow = jsonData[headerRowIndex];
-    const headers = headerRow.map((h: any) => String(h || '').trim()).filter((h: string) => h !== '');
+    const record: InvoiceRecord = {};
+    let startTime: TimeOfDay | null = null;
+    let endTime: TimeOfDay | null = null;
+    let duration: number | null = null;
     
-    console.log(`Found headers at row ${headerRowIndex + 1}:`, headers);
+    // The formatted text shows whether a number is a time ("9:30 AM") or a plain number
+    const cellText = (index: number): string | undefined =>
+      worksheet[XLSX.utils.encode_cell({ r: i, c: index })]?.w;
     
-    if (headers.length === 0) {
-      console.log('No headers found in row', headerRowIndex + 1);
-      return { records: [], columns: [] };
-    }
-    
-    const records: InvoiceRecord[] = [];
-    
-    // Process data rows starting from the row after headers
-    for (let i = headerRowIndex + 1; i < jsonData.length; i++) {
-      const row = jsonData[i];
+    headerCells.forEach(({ name: header, index }: { name: string; index: number }) => {
+      let value = row[index];
       
-      // Check Column A (first column, index 0) - must be a valid date
-      const columnAValue = row[0];
-      const isValid = isValidDate(columnAValue);
-      
-      // Debug: log the raw value and how it's being parsed
-      if (i < headerRowIndex + 5) { // Only log first few rows to avoid spam
-        console.log(`Row ${i + 1}, Column A raw value:`, columnAValue, 'Type:', typeof columnAValue);
-        if (typeof columnAValue === 'number') {
-          const excelEpoch = new Date(1899, 11, 30);
-          const dateFromSerial = new Date(excelEpoch.getTime() + columnAValue * 86400000);
-          console.log(`  -> Excel serial ${columnAValue} converts to:`, dateFromSerial.toLocaleDateString());
+      // Handle Lesson Date column specially
+      if (index === dateColumnIndex) {
+        record[header] = lessonDate;
+      } else if (header.toLowerCase().includes('lesson date') || 
+          (header.toLowerCase().includes('date') && !header.toLowerCase().includes('time'))) {
+        if (value) {
+          // Try to parse as date
+          const dateValue = parseDate(value, profile.dateLocale);
+          record[header] = dateValue;
+        } else {
+          record[header] = null;
         }
-      }
-      
-      if (!isValid) {
-        // Skip this row if Column A is not a valid date
-        console.log(`Skipping row ${i + 1} - Column A is not a valid date`);
-        continue;
-      }
-      
-      const record: InvoiceRecord = {};
-      
-      headers.forEach((header, index) => {
-        let value = row[index];
-        
-        // Handle Lesson Date column specially
-        if (header.toLowerCase().includes('lesson date') || 
-            (header.toLowerCase().includes('date') && !header.toLowerCase().includes('time'))) {
-          if (value) {
-            // Try to parse as date
-            const dateValue = parseDate(value);
-            record[header] = dateValue;
-          } else {
-            record[header] = null;
-          }
+      } else if (header === startTimeColumn || header === endTimeColumn) {
+        // Times are stored as HH:MM; unreadable ones are kept as they are
+        const time = readTimeOfDay(value, cellText(index));
+        if (time === null && !isBlank(value)) {
+          diagnostics.push({
+            row: rowNumber,
+            severity: 'warning',
+            code: 'INVALID_TIME',
+            message: `${header} is not a valid time`,
+            value
+          });
+        }
+        record[header] = time ?? (value !== undefined && value !== null ? value : null);
+        if (header === startTimeColumn) {
+          startTime = time;
         } else {
-          // For other columns, keep as string or number
-          record[header] = value !== undefined && value !== null ? value : null;
+          endTime = time;
         }
-      });
-      
-      // Only add non-empty rows (skip rows that are completely empty or only have totals)
-      const hasData = Object.values(record).some(v => v !== null && v !== undefined && v !== '');
-      // Also skip rows that look like totals rows (e.g., contain "Total" or "Totals" in first column)
-      const isTotalsRow = record[headers[0]] && String(record[headers[0]]).toLowerCase().includes('total');
-      
-      if (hasData && !isTotalsRow) {
-        records.push(record);
+      } else {
+        if (header === durationColumn) {
+          duration = readDurationMinutes(value, cellText(index), durationUnit);
+          if (duration === null && !isBlank(value)) {
+            diagnostics.push({
+              row: rowNumber,
+              severity: 'warning',
+              code: 'INVALID_DURATION',
+              message: `${header} is not a valid lesson length`,
+              value
+            });
+          }
+        }
+        // For other columns, keep as string or number
+        record[header] = value !== undefined && value !== null ? value : null;
       }
+    });
+    
+    // Without a duration column the lesson length comes from the start and end times
+    if (startTimeColumn) {
+      record.startTime = startTime;
+    }
+    if (durationColumn || (startTimeColumn && endTimeColumn)) {
+      record.durationMinutes = duration ?? (startTime && endTime ? durationBetween(startTime, endTime) : null);
     }
     
-    // Extract value from J2:J3 merged cell (column J = index 9)
-    // For merged cells with formulas, we need to access the cell directly
-    let totalAmount = 0;
-    const columnJIndex = 9; // Column J is index 9 (0-based: A=0, B=1, ..., J=9)
+    // Only add rows with data in the header columns
+    const hasData = Object.values(record).some(v => v !== null && v !== undefined && v !== '');
     
-    // Access the worksheet directly to get the merged cell value
-    // Row 2 = index 1 (0-based), Column J = index 9
-    const cellJ2 = worksheet[XLSX.utils.encode_cell({ r: 1, c: columnJIndex })];
+    if (hasData) {
+      records.push(record);
+      recordRows.push(rowNumber);
+    } else {
+      diagnostics.push({
+        row: rowNumber,
+        severity: 'info',
+        code: 'EMPTY_ROW',
+        message: 'Row has no values under the column headers'
+      });
+    }
+  }
+  
+  // Rows with the same lesson identity are kept, but flagged since they can't be told
+  // apart when the file is uploaded again
+  const recordIdentity = resolveRecordIdentity(profile.recordIdentity, headers);
+  const keyOf = recordKeyFunction(recordIdentity, headers);
+  const firstRowByKey = new Map<string, number>();
+  records.forEach((record, index) => {
+    const key = keyOf(record);
+    const firstRow = firstRowByKey.get(key);
+    if (firstRow === undefined) {
+      firstRowByKey.set(key, recordRows[index]);
+      return;
+    }
+    diagnostics.push({
+      row: recordRows[index],
+      severity: 'warning',
+      code: 'DUPLICATE_RECORD_KEY',
+      message: `Same lesson (${key}) as row ${firstRow}`,
+      value: key
+    });
+  });
+  
+  // Extract the file total from the profile's total cells (J2:J3 merged cell by default)
+  // For merged cells with formulas, we need to access the cell directly
+  let totalAmount = 0;
+  let foundTotal = false;
+  
+  for (const cellRef of profile.totalCells) {
+    const cell = worksheet[cellRef];
     
-    console.log('=== EXTRACTING J2:J3 MERGED CELL VALUE ===');
-    console.log('Cell J2 object:', cellJ2);
+    // Get the value (v = calculated value, even for formulas)
+    if (cell && cell.v !== undefined && cell.v !== null) {
+      totalAmount = parseCurrencyValue(cell.v);
+      foundTotal = true;
+      console.log(`Total cell ${cellRef} value:`, cell.v, '-> parsed as:', totalAmount);
+      break;
+    }
+  }
+  
+  if (!foundTotal && profile.totalCells.length > 0) {
+    diagnostics.push({
+      row: XLSX.utils.decode_cell(profile.totalCells[0]).r + 1,
+      severity: 'warning',
+      code: 'TOTAL_CELL_MISSING',
+      message: `No value found in total cell ${profile.totalCells.join(' or ')}; file total set to $0.00`,
+      value: profile.totalCells.join(', ')
+    });
+  }
+  
+  // Check the file total against the sum of the line items. A formula range that
+  // misses a row shows up here.
+  const amountColumn = findAmountColumn(headers);
+  const lineItemsTotal = amountColumn
+    ? roundCents(records.reduce((sum, record) => sum + parseCurrencyValue(record[amountColumn]), 0))
+    : null;
+  const totalDifference = foundTotal && lineItemsTotal !== null
+    ? roundCents(totalAmount - lineItemsTotal)
+    : null;
+  
+  if (totalDifference !== null && totalDifference !== 0) {
+    diagnostics.push({
+      row: null,
+      severity: 'warning',
+      code: 'TOTAL_MISMATCH',
+      message: `File total $${totalAmount.toFixed(2)} does not match the ${amountColumn} column total $${lineItemsTotal!.toFixed(2)} (difference $${totalDifference.toFixed(2)})`,
+      value: totalDifference
+    });
+  }
+  
+  console.log(`Parsed ${records.length} records from sheet "${sheetName}" with ${headers.length} columns (${diagnostics.length} diagnostics). Total amount: $${totalAmount.toFixed(2)}`);
+  
+  return {
+    records,
+    columns: headers,
+    totalAmount,
+    lineItemsTotal,
+    totalDifference,
+    sheetName,
+    metadata,
+    recordIdentity,
+    layoutProfile: profile.name,
+    headerRow: headerRowIndex + 1,
+    diagnostics
+  };
+}
+
+// Scan every sheet of a workbook (or the single sheet of a CSV file) for an invoice header.
+// Each matching sheet is returned as its own invoice; the rest are listed with the reason
+// they were ignored.
+export function parseWorkbook(
+  buffer: ArrayBuffer,
+  profiles: LayoutProfile[] = [DEFAULT_LAYOUT_PROFILE],
+  filename?: string,
+  dateOverrides: DateOverrides = {}
+): ParsedWorkbook {
+  try {
+    // The filename tells CSV apart from binary formats (.xlsx, .xls, .ods)
+    const workbook = readWorkbook(buffer, filename);
     
-    if (cellJ2) {
-      // Check if it has a formula
-      if (cellJ2.f) {
-        console.log('Cell J2 has formula:', cellJ2.f);
-        console.log('Cell J2 calculated value (v):', cellJ2.v);
-        console.log('Cell J2 type:', cellJ2.t);
-      }
-      
-      // Get the value (v = calculated value, even for formulas)
-      if (cellJ2.v !== undefined && cellJ2.v !== null) {
-        const directValue = parseCurrencyValue(cellJ2.v);
-        totalAmount = directValue;
-        console.log(`J2:J3 merged cell value:`, cellJ2.v, '-> parsed as:', directValue);
+    const invoices: ParsedInvoiceData[] = [];
+    const ignoredSheets: IgnoredSheet[] = [];
+    
+    for (const sheetName of workbook.SheetNames) {
+      const result = parseWorksheet(workbook.Sheets[sheetName], sheetName, profiles, dateOverrides[sheetName]);
+      if (typeof result === 'string') {
+        ignoredSheets.push({ sheetName, reason: result });
       } else {
-        console.warn('Cell J2 exists but has no value (v property)');
-        console.log('Cell J2 properties:', Object.keys(cellJ2));
-      }
-    } else {
-      console.warn('Cell J2 not found in worksheet');
-      // Try alternative cell references
-      const cellJ3 = worksheet[XLSX.utils.encode_cell({ r: 2, c: columnJIndex })];
-      console.log('Trying J3 instead:', cellJ3);
-      if (cellJ3 && cellJ3.v !== undefined && cellJ3.v !== null) {
-        const directValue = parseCurrencyValue(cellJ3.v);
-        totalAmount = directValue;
-        console.log(`J3 value:`, cellJ3.v, '-> parsed as:', directValue);
+        invoices.push(result);
       }
     }
     
-    // Also check the array method as fallback
-    if (totalAmount === 0) {
-      if (jsonData.length > 2 && jsonData[1] && jsonData[1][columnJIndex] !== undefined && jsonData[1][columnJIndex] !== null) {
-        const value1 = parseCurrencyValue(jsonData[1][columnJIndex]);
-        totalAmount = value1;
-        console.log(`Fallback: J2 from array:`, jsonData[1][columnJIndex], '->', value1);
-      }
+    if (invoices.length === 0) {
+      const names = profiles.map(p => `"${p.name}"`).join(', ');
+      throw new Error(`Could not find a header row matching layout ${names} in any sheet. Please ensure the column headers are present or choose a different layout profile.`);
     }
     
-    console.log(`Parsed ${records.length} records with ${headers.length} columns. Total amount (J2:J3 merged): $${totalAmount.toFixed(2)}`);
-    
-    return { records, columns: headers, totalAmount };
+    return { invoices, ignoredSheets };
   } catch (error) {
     console.error('Parse error:', error);
     throw new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+// Parse the first invoice sheet of a workbook
+export function parseExcelBuffer(
+  buffer: ArrayBuffer,
+  profiles: LayoutProfile[] = [DEFAULT_LAYOUT_PROFILE]
+): ParsedInvoiceData {
+  return parseWorkbook(buffer, profiles).invoices[0];
+}
+
 export function combineInvoiceData(dataArrays: ParsedInvoiceData[]): ParsedInvoiceData {
   if (dataArrays.length === 0) {
     return { records: [], columns: [] };
@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { ParsedInvoiceData } from './invoiceTypes';
 
 export function computeFileHash(buffer: ArrayBuffer | Uint8Array): string {
   const hash = crypto.createHash('sha256');
@@ -9,3 +10,15 @@ export function computeFileHash(buffer: ArrayBuffer | Uint8Array): string {
   }
   return hash.digest('hex');
 }
+
+// Hash of one parsed invoice sheet. Used for workbooks holding several invoices, where
+// editing one sheet changes the file hash but should not make the other sheets look new.
+export function computeSheetHash(data: ParsedInvoiceData): string {
+  const content = JSON.stringify({
+    sheetName: data.sheetName,
+    columns: data.columns,
+    records: data.records,
+    totalAmount: data.totalAmount
+  });
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,15 @@
+// Teaching hours and amounts per day, week or client, worked out in SQL by getHoursReport
+export type HoursGrouping = 'day' | 'week' | 'client';
+
+export interface HoursReportRow {
+  key: string; // Calendar date for 'day', the week's Monday for 'week', else the client name
+  lessons: number;
+  minutes: number; // Teaching time of the lessons with a known duration
+  untimedLessons: number; // Lessons without a duration, not counted in minutes
+  amount: number;
+}
+
+export interface HoursReport {
+  rows: HoursReportRow[];
+  totals: Omit<HoursReportRow, 'key'>;
+}
@@ -0,0 +1,79 @@
+import { CANONICAL_COLUMNS } from './layoutProfiles';
+
+// Header words that mark a lesson's charge, in order of preference
+const AMOUNT_KEYWORDS = ['amount', 'fee', 'price', 'charge', 'cost'];
+
+// Find the column holding each lesson's charge: the canonical Amount column set by a
+// layout profile, else the first header containing an amount keyword
+export function findAmountColumn(columns: string[]): string | null {
+  if (columns.includes(CANONICAL_COLUMNS.amount)) {
+    return CANONICAL_COLUMNS.amount;
+  }
+  for (const keyword of AMOUNT_KEYWORDS) {
+    const column = columns.find(col => col.toLowerCase().includes(keyword) && !col.toLowerCase().includes('total'));
+    if (column) return column;
+  }
+  return null;
+}
+
+// Find the column holding the lesson date: the canonical Lesson Date column, else the
+// first header with "date" in it that isn't a date-time
+export function findDateColumn(columns: string[]): string | null {
+  if (columns.includes(CANONICAL_COLUMNS.date)) {
+    return CANONICAL_COLUMNS.date;
+  }
+  return columns.find(col => col.toLowerCase().includes('date') && !col.toLowerCase().includes('time')) || null;
+}
+
+export function findClientColumn(columns: string[]): string | null {
+  if (columns.includes(CANONICAL_COLUMNS.client)) {
+    return CANONICAL_COLUMNS.client;
+  }
+  return columns.find(col => col.toLowerCase().includes('client')) || null;
+}
+
+// The canonical Booking ID column set by a layout profile, else a header such as
+// "Booking ID", "Booking Ref", "Line No" or "Lesson #"
+export function findBookingIdColumn(columns: string[]): string | null {
+  if (columns.includes(CANONICAL_COLUMNS.bookingId)) {
+    return CANONICAL_COLUMNS.bookingId;
+  }
+  return columns.find(col => /\b(booking|line|lesson|session)\s*((id|ref|reference|no|number)\b|#)/i.test(col)) || null;
+}
+
+// "Start Time", "Start" or a plain "Time" column
+export function findStartTimeColumn(columns: string[]): string | null {
+  return columns.find(col => /\bstart\b/i.test(col) && !/\bdate\b/i.test(col)) ||
+    columns.find(col => /\btime\b/i.test(col) && !/\b(end|finish|date)\b/i.test(col)) ||
+    null;
+}
+
+// "End Time", "Finish" or "Finish Time"
+export function findEndTimeColumn(columns: string[]): string | null {
+  return columns.find(col => /\b(end|finish)\b/i.test(col) && !/\bdate\b/i.test(col)) || null;
+}
+
+// "Duration", "Length", "Hours" or "Minutes"
+export function findDurationColumn(columns: string[]): string | null {
+  return columns.find(col => /\b(duration|length|hours|hrs|minutes|mins)\b/i.test(col)) || null;
+}
+
+// Parse a currency cell ("$1,234.50" or 1234.5). Anything unreadable counts as 0.
+export function parseCurrencyValue(value: any): number {
+  if (value === null || value === undefined) return 0;
+  
+  // If it's already a number
+  if (typeof value === 'number') {
+    return value;
+  }
+  
+  // If it's a string, remove currency symbols and parse
+  if (typeof value === 'string') {
+    // Remove $, commas, and whitespace
+    const cleaned = value.replace(/[$,\s]/g, '');
+    const parsed = parseFloat(cleaned);
+    return isNaN(parsed) ? 0 : parsed;
+  }
+  
+  return 0;
+}
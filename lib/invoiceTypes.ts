@@ -1,18 +1,123 @@
+import { CalendarDate } from './calendarDate';
+import { TimeOfDay } from './lessonTime';
+
 export interface InvoiceRecord {
-  [key: string]: string | number | Date | null | undefined;
-  'Lesson Date'?: Date | string | null;
+  [key: string]: string | number | null | undefined;
+  'Lesson Date'?: CalendarDate | string | null; // YYYY-MM-DD, or the raw text if it couldn't be parsed
   'Client Name'?: string | null;
+  startTime?: TimeOfDay | null; // HH:MM, set when the sheet has a start time column
+  durationMinutes?: number | null; // From a duration column, or the start and end times
 }
 
 export interface ParsedInvoiceData {
   records: InvoiceRecord[];
   columns: string[];
   totalAmount?: number; // Sum of J2:J3 values
+  lineItemsTotal?: number | null; // Sum of the amount column, null when there is no amount column
+  totalDifference?: number | null; // totalAmount minus lineItemsTotal, null when either is unknown
   fileName?: string; // Optional filename for tracking
+  sheetName?: string; // Worksheet the invoice was read from
+  layoutProfile?: string; // Name of the layout profile used to parse the sheet
+  headerRow?: number; // 1-based row the column headers were found on
+  diagnostics?: ParseDiagnostic[]; // Rows that were ignored and other problems found while parsing
+  metadata?: InvoiceMetadata; // Invoice details from the rows above the header row
+  recordIdentity?: ResolvedRecordIdentity; // How these lessons are matched with a previous upload
+}
+
+// Invoice details from the top of the sheet. Fields that can't be found are null.
+export interface InvoiceMetadata {
+  invoiceNumber: string | null;
+  issueDate: CalendarDate | null;
+  billingPeriodStart: CalendarDate | null;
+  billingPeriodEnd: CalendarDate | null;
+  billTo: string | null;
+}
+
+// A worksheet that was not read as an invoice (e.g. a summary sheet)
+export interface IgnoredSheet {
+  sheetName: string;
+  reason: string;
+}
+
+// Every invoice found in a workbook, one per matching sheet
+export interface ParsedWorkbook {
+  invoices: ParsedInvoiceData[];
+  ignoredSheets: IgnoredSheet[];
+}
+
+export type DiagnosticSeverity = 'info' | 'warning' | 'error';
+
+export type DiagnosticCode =
+  | 'NOT_A_DATE' // Date column value isn't a date, row ignored
+  | 'TOTALS_ROW' // Row looks like a totals row, row ignored
+  | 'EMPTY_ROW' // Row has no values, row ignored
+  | 'SKIPPED_ROW' // Row listed in the layout profile's skip list, row ignored
+  | 'TOTAL_CELL_MISSING' // None of the total cells had a value
+  | 'METADATA_CELL_MISSING' // A metadata cell set in the layout profile is empty
+  | 'INVALID_METADATA' // A metadata value couldn't be read (e.g. an issue date that isn't a date)
+  | 'TOTAL_MISMATCH' // The file total doesn't equal the sum of the amount column
+  | 'AMBIGUOUS_DATE' // Day and month could be read either way, e.g. 03/04/2024
+  | 'DATE_OUTSIDE_PERIOD' // Lesson date is outside the invoice's billing period
+  | 'INVALID_TIME' // A start or end time couldn't be read, row kept
+  | 'INVALID_DURATION' // A lesson length couldn't be read, row kept
+  | 'DUPLICATE_RECORD_KEY'; // Another row has the same lesson identity, both kept
+
+export interface ParseDiagnostic {
+  row: number | null; // 1-based spreadsheet row, null when not tied to a row
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  value?: string | number | null; // Raw value that caused the diagnostic
+  alternatives?: CalendarDate[]; // Possible readings of a date; the first is the one used
+}
+
+// Lesson dates chosen by the user for ambiguous rows, by sheet name then 1-based row
+export interface DateOverrides {
+  [sheetName: string]: { [row: number]: CalendarDate };
+}
+
+// Date overrides for a whole upload, by filename
+export interface UploadDateOverrides {
+  [filename: string]: DateOverrides;
 }
 
 export interface FilterState {
-  lessonDate: Date | null;
+  lessonDate: CalendarDate | null;
   clientName: string | null;
 }
 
+// Order of day and month in numeric dates. ISO (2024-03-04) and textual months
+// (4 March 2024) are read the same way in either locale.
+export type DateLocale = 'day-first' | 'month-first';
+
+// How the lessons of a new version of a file are matched with the uploaded ones.
+// 'auto' uses a booking ID column when there is one, else date, client and start time
+// when the sheet has start times, else date and client.
+export type RecordIdentity = 'auto' | 'date-client' | 'date-client-time' | 'booking-id';
+export type ResolvedRecordIdentity = Exclude<RecordIdentity, 'auto'>;
+
+// Describes where things live in an invoice spreadsheet template.
+// Row numbers are 1-based and columns/cells use spreadsheet notation (A, J2).
+export interface LayoutProfile {
+  id?: number; // Unset for the built-in default profile
+  name: string;
+  headerRow: number | null; // Row checked first for the header
+  headerSearchStart: number; // Rows searched if the header isn't at headerRow
+  headerSearchEnd: number;
+  headerKeywords: string[]; // Header row must contain one of these (case-insensitive)
+  dateColumn: string; // Rows without a valid date here are skipped
+  dateLocale: DateLocale; // How numeric dates like 03/04/2024 are read
+  clientColumn: string | null;
+  amountColumn: string | null;
+  bookingIdColumn: string | null; // Booking or invoice line ID, used to match lessons
+  recordIdentity: RecordIdentity;
+  totalCells: string[]; // First cell with a value is used as the file total
+  skipRows: number[];
+  skipRowKeywords: string[]; // Rows whose first cell contains one of these are skipped
+  // Cells holding invoice metadata. When null the rows above the header are searched for a label.
+  invoiceNumberCell: string | null;
+  issueDateCell: string | null;
+  billingPeriodStartCell: string | null; // May hold the whole period, e.g. "01/03/2024 - 31/03/2024"
+  billingPeriodEndCell: string | null;
+  billToCell: string | null;
+}
@@ -0,0 +1,143 @@
+import { LayoutProfile, RecordIdentity } from './invoiceTypes';
+
+// Matches the original invoice template: header on row 10 (or anywhere in rows 5-15),
+// day-first lesson dates in column A and the file total in the J2:J3 merged cell
+export const DEFAULT_LAYOUT_PROFILE: LayoutProfile = {
+  name: 'Standard invoice (built-in)',
+  headerRow: 10,
+  headerSearchStart: 5,
+  headerSearchEnd: 15,
+  headerKeywords: ['lesson date', 'client name'],
+  dateColumn: 'A',
+  dateLocale: 'day-first',
+  clientColumn: null,
+  amountColumn: null,
+  bookingIdColumn: null,
+  recordIdentity: 'auto',
+  totalCells: ['J2', 'J3'],
+  skipRows: [],
+  skipRowKeywords: ['total'],
+  invoiceNumberCell: null,
+  issueDateCell: null,
+  billingPeriodStartCell: null,
+  billingPeriodEndCell: null,
+  billToCell: null,
+};
+
+// Header names that mapped columns are renamed to, so the rest of the app can find them
+export const CANONICAL_COLUMNS = {
+  date: 'Lesson Date',
+  client: 'Client Name',
+  amount: 'Amount',
+  bookingId: 'Booking ID',
+} as const;
+
+const RECORD_IDENTITIES: RecordIdentity[] = ['auto', 'date-client', 'date-client-time', 'booking-id'];
+
+const COLUMN_PATTERN = /^[A-Z]{1,3}$/;
+const CELL_PATTERN = /^[A-Z]{1,3}[1-9]\d*$/;
+
+// Convert a column letter (A, J, AA) to a 0-based index
+export function columnLetterToIndex(column: string): number {
+  let index = 0;
+  for (const char of column.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(v => String(v).trim()).filter(v => v !== '');
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(v => v.trim()).filter(v => v !== '');
+  }
+  return [];
+}
+
+function toOptionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? NaN : parsed;
+}
+
+// Column letter or cell reference, upper-cased
+function toOptionalReference(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const trimmed = String(value).trim().toUpperCase();
+  return trimmed === '' ? null : trimmed;
+}
+
+// Build a profile from untrusted input (API body or form state).
+// Comma-separated strings are accepted for list fields.
+export function normalizeLayoutProfile(input: any): LayoutProfile {
+  return {
+    id: typeof input?.id === 'number' ? input.id : undefined,
+    name: String(input?.name ?? '').trim(),
+    headerRow: toOptionalNumber(input?.headerRow),
+    headerSearchStart: Number(input?.headerSearchStart ?? DEFAULT_LAYOUT_PROFILE.headerSearchStart),
+    headerSearchEnd: Number(input?.headerSearchEnd ?? DEFAULT_LAYOUT_PROFILE.headerSearchEnd),
+    headerKeywords: toList(input?.headerKeywords).map(k => k.toLowerCase()),
+    dateColumn: toOptionalReference(input?.dateColumn) || DEFAULT_LAYOUT_PROFILE.dateColumn,
+    dateLocale: input?.dateLocale === 'month-first' ? 'month-first' : 'day-first',
+    clientColumn: toOptionalReference(input?.clientColumn),
+    amountColumn: toOptionalReference(input?.amountColumn),
+    bookingIdColumn: toOptionalReference(input?.bookingIdColumn),
+    recordIdentity: RECORD_IDENTITIES.includes(input?.recordIdentity) ? input.recordIdentity : 'auto',
+    totalCells: toList(input?.totalCells).map(c => c.toUpperCase()),
+    skipRows: toList(input?.skipRows).map(Number),
+    skipRowKeywords: toList(input?.skipRowKeywords).map(k => k.toLowerCase()),
+    invoiceNumberCell: toOptionalReference(input?.invoiceNumberCell),
+    issueDateCell: toOptionalReference(input?.issueDateCell),
+    billingPeriodStartCell: toOptionalReference(input?.billingPeriodStartCell),
+    billingPeriodEndCell: toOptionalReference(input?.billingPeriodEndCell),
+    billToCell: toOptionalReference(input?.billToCell),
+  };
+}
+
+// Returns an error message, or null if the profile is usable
+export function validateLayoutProfile(profile: LayoutProfile): string | null {
+  if (!profile.name) {
+    return 'Profile name is required';
+  }
+  if (profile.headerRow !== null && (!Number.isInteger(profile.headerRow) || profile.headerRow < 1)) {
+    return 'Header row must be a positive whole number';
+  }
+  if (!Number.isInteger(profile.headerSearchStart) || !Number.isInteger(profile.headerSearchEnd) ||
+      profile.headerSearchStart < 1 || profile.headerSearchEnd < profile.headerSearchStart) {
+    return 'Header search range must be a valid range of rows';
+  }
+  if (profile.headerKeywords.length === 0) {
+    return 'At least one header keyword is required';
+  }
+  for (const [label, column] of [
+    ['Date column', profile.dateColumn],
+    ['Client column', profile.clientColumn],
+    ['Amount column', profile.amountColumn],
+    ['Booking ID column', profile.bookingIdColumn],
+  ] as const) {
+    if (column !== null && !COLUMN_PATTERN.test(column)) {
+      return `${label} must be a column letter such as A or J`;
+    }
+  }
+  const invalidCell = profile.totalCells.find(cell => !CELL_PATTERN.test(cell));
+  if (invalidCell) {
+    return `Invalid total cell reference: ${invalidCell}`;
+  }
+  for (const [label, cell] of [
+    ['Invoice number cell', profile.invoiceNumberCell],
+    ['Issue date cell', profile.issueDateCell],
+    ['Billing period start cell', profile.billingPeriodStartCell],
+    ['Billing period end cell', profile.billingPeriodEndCell],
+    ['Bill to cell', profile.billToCell],
+  ] as const) {
+    if (cell !== null && !CELL_PATTERN.test(cell)) {
+      return `${label} must be a cell reference such as B3`;
+    }
+  }
+  if (profile.skipRows.some(row => !Number.isInteger(row) || row < 1)) {
+    return 'Skipped rows must be positive whole numbers';
+  }
+  return null;
+}
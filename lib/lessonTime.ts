@@ -0,0 +1,121 @@
+// Lesson start times are carried as 24-hour 'HH:MM' strings. Like calendar dates they
+// are kept as text, so no time zone is involved.
+export type TimeOfDay = string;
+
+const MINUTES_PER_DAY = 1440;
+
+// One part of a written duration: "1.5 hrs", "1h", "30 mins"
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)\b/g;
+
+export type DurationUnit = 'hours' | 'minutes';
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function formatTimeOfDay(minutes: number): TimeOfDay {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+export function timeOfDayToMinutes(time: TimeOfDay): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes since midnight, or null when the parts aren't a time of day
+function toMinutes(hours: number, minutes: number, meridiem?: string): number | null {
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = hours % 12 + (meridiem === 'p' ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+// Read a cell as a time of day. Excel stores times as a fraction of a day; the cell's
+// formatted text (e.g. "9:30 AM") tells a date-time serial apart from a plain number.
+export function readTimeOfDay(value: any, formattedText?: string): TimeOfDay | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : formatTimeOfDay(value.getHours() * 60 + value.getMinutes());
+  }
+
+  if (typeof value === 'number') {
+    if (value < 0) return null;
+    if (value < 1) {
+      return formatTimeOfDay(Math.round(value * MINUTES_PER_DAY) % MINUTES_PER_DAY);
+    }
+    // A date and time in one cell: keep the time
+    if (formattedText && formattedText.includes(':')) {
+      return formatTimeOfDay(Math.round((value % 1) * MINUTES_PER_DAY) % MINUTES_PER_DAY);
+    }
+    // A whole hour typed as a number, e.g. 14
+    if (Number.isInteger(value) && value <= 23) {
+      return formatTimeOfDay(value * 60);
+    }
+    return null;
+  }
+
+  if (typeof value !== 'string') return null;
+  // "9:30am", "9.30 pm", "9am", "14:00", "14:00:00", or the time part of "2024-03-01 09:30"
+  const text = value.trim().toLowerCase().replace(/^\d{4}-\d{2}-\d{2}[t\s]+/, '');
+  if (text === 'noon' || text === 'midday') return '12:00';
+  const match = text.match(/^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*(?:([ap])\.?m?\.?)?$/);
+  if (!match) return null;
+  // A bare number like "9" is only a time with am/pm
+  if (match[2] === undefined && !match[3]) return null;
+  const minutes = toMinutes(parseInt(match[1], 10), parseInt(match[2] || '0', 10), match[3]);
+  return minutes === null ? null : formatTimeOfDay(minutes);
+}
+
+// Read a cell as a lesson length in minutes. Plain numbers are in the column's unit;
+// a number formatted as a time (e.g. "1:30") is an Excel fraction of a day.
+export function readDurationMinutes(
+  value: any,
+  formattedText?: string,
+  unit: DurationUnit = 'hours'
+): number | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'number') {
+    if (value < 0) return null;
+    if (formattedText && formattedText.includes(':')) {
+      return Math.round(value * MINUTES_PER_DAY);
+    }
+    return Math.round(unit === 'hours' ? value * 60 : value);
+  }
+
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+
+  // "1:30" is hours and minutes
+  const clockMatch = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (clockMatch) {
+    const minutes = parseInt(clockMatch[2], 10);
+    return minutes > 59 ? null : parseInt(clockMatch[1], 10) * 60 + minutes;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return readDurationMinutes(parseFloat(text), undefined, unit);
+  }
+
+  // "1.5 hrs", "90 mins", "1h 30m", "1 hour 15 minutes"
+  let total = 0;
+  let matched = false;
+  const rest = text.replace(DURATION_PART, (_part, amount: string, partUnit: string) => {
+    matched = true;
+    total += partUnit.startsWith('h') ? parseFloat(amount) * 60 : parseFloat(amount);
+    return '';
+  });
+  if (!matched || rest.replace(/[\s,]|and/g, '') !== '') return null;
+  return Math.round(total);
+}
+
+// Length of a lesson from its start and end times, null when the end isn't after the start
+export function durationBetween(start: TimeOfDay, end: TimeOfDay): number | null {
+  const minutes = timeOfDayToMinutes(end) - timeOfDayToMinutes(start);
+  return minutes > 0 ? minutes : null;
+}
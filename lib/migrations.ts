@@ -0,0 +1,603 @@
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (database: Database.Database) => void;
+}
+
+function hasColumn(database: Database.Database, table: string, column: string): boolean {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some(c => c.name === column);
+}
+
+// Databases created before migrations were tracked may already have the column
+function addColumn(database: Database.Database, table: string, column: string, definition: string): void {
+  if (!hasColumn(database, table, column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+interface AuditedTable {
+  table: string;
+  columns: string[]; // Columns saved as the before/after values of a change
+  jsonColumns?: string[]; // Columns holding JSON, nested as it is
+  fileId: string | null; // Column each audit entry is filtered by, if the table has it
+  clientName: string | null;
+  lessonDate: string | null;
+}
+
+// Tables whose changes are written to audit_log, as of migration 11. A later migration that
+// adds a column to one of them recreates its triggers with auditedWithColumns.
+const AUDITED_TABLES: AuditedTable[] = [
+  {
+    table: 'uploaded_files',
+    columns: [
+      'filename', 'content_hash', 'sheet_name', 'uploaded_at', 'total_amount', 'invoice_number', 'issue_date',
+      'billing_period_start', 'billing_period_end', 'bill_to', 'line_items_total', 'total_difference', 'deleted_at'
+    ],
+    fileId: 'id',
+    clientName: null,
+    lessonDate: null,
+  },
+  {
+    table: 'invoice_records',
+    columns: [
+      'file_id', 'lesson_date', 'client_name', 'amount', 'start_time', 'duration_minutes', 'kilometers',
+      'duplicate_of', 'record_data'
+    ],
+    jsonColumns: ['record_data'],
+    fileId: 'file_id',
+    clientName: 'client_name',
+    lessonDate: 'lesson_date',
+  },
+  {
+    table: 'addresses',
+    columns: ['address_type', 'client_name', 'address'],
+    fileId: null,
+    clientName: 'client_name',
+    lessonDate: null,
+  },
+];
+
+// An audited table as of migration 11 with the columns added since then
+function auditedWithColumns(table: string, added: string[]): AuditedTable {
+  const audited = AUDITED_TABLES.find(a => a.table === table)!;
+  return { ...audited, columns: [...audited.columns, ...added] };
+}
+
+// (Re)create the insert, update and delete triggers that log changes to a table. The
+// operation that made the change is read from audit_context, set by the app.
+function createAuditTriggers(database: Database.Database, audited: AuditedTable): void {
+  const { table, columns, jsonColumns = [] } = audited;
+  const rowJson = (row: 'OLD' | 'NEW') => `json_object(${columns
+    .map(column => `'${column}', ${jsonColumns.includes(column) ? `json(${row}.${column})` : `${row}.${column}`}`)
+    .join(', ')})`;
+  const value = (row: 'OLD' | 'NEW', column: string | null) => column ? `${row}.${column}` : 'NULL';
+  const entry = (change: string, row: 'OLD' | 'NEW', before: string, after: string) => `
+    INSERT INTO audit_log (action, change, table_name, row_id, file_id, client_name, lesson_date, before_data, after_data)
+    VALUES (
+      COALESCE((SELECT action FROM audit_context WHERE id = 1), 'change'), '${change}', '${table}', ${row}.id,
+      ${value(row, audited.fileId)}, ${value(row, audited.clientName)}, ${value(row, audited.lessonDate)},
+      ${before}, ${after}
+    );`;
+
+  database.exec(`
+    DROP TRIGGER IF EXISTS audit_${table}_insert;
+    DROP TRIGGER IF EXISTS audit_${table}_update;
+    DROP TRIGGER IF EXISTS audit_${table}_delete;
+
+    CREATE TRIGGER audit_${table}_insert AFTER INSERT ON ${table}
+    BEGIN ${entry('insert', 'NEW', 'NULL', rowJson('NEW'))}
+    END;
+
+    CREATE TRIGGER audit_${table}_update AFTER UPDATE ON ${table}
+    WHEN ${rowJson('OLD')} IS NOT ${rowJson('NEW')}
+    BEGIN ${entry('update', 'NEW', rowJson('OLD'), rowJson('NEW'))}
+    END;
+
+    CREATE TRIGGER audit_${table}_delete AFTER DELETE ON ${table}
+    BEGIN ${entry('delete', 'OLD', rowJson('OLD'), 'NULL')}
+    END;
+  `);
+}
+
+// Migration 7's backfill as it was released. The helpers it used from lib are copied here
+// so that a database upgraded today gets the same typed columns as one upgraded then.
+const V7_CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const V7_ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+const V7_AMOUNT_KEYWORDS = ['amount', 'fee', 'price', 'charge', 'cost'];
+
+interface V7PromotedColumns {
+  date: string | null;
+  client: string | null;
+  amount: string | null;
+}
+
+function v7PromotedColumns(columns: string[]): V7PromotedColumns {
+  const lower = (column: string) => column.toLowerCase();
+  let amount: string | null = columns.includes('Amount') ? 'Amount' : null;
+  for (const keyword of V7_AMOUNT_KEYWORDS) {
+    if (amount) break;
+    amount = columns.find(col => lower(col).includes(keyword) && !lower(col).includes('total')) || null;
+  }
+  return {
+    date: columns.includes('Lesson Date')
+      ? 'Lesson Date'
+      : columns.find(col => lower(col).includes('date') && !lower(col).includes('time')) || null,
+    client: columns.includes('Client Name')
+      ? 'Client Name'
+      : columns.find(col => lower(col).includes('client')) || null,
+    amount,
+  };
+}
+
+// Lesson dates saved as ISO timestamps of local midnight, rounded to the nearest UTC midnight
+function v7NormalizeDates(record: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    normalized[key] = value;
+    if (!key.toLowerCase().includes('date') || typeof value !== 'string' || !V7_ISO_TIMESTAMP.test(value)) continue;
+    const time = Date.parse(value);
+    if (!isNaN(time)) {
+      normalized[key] = new Date(time + 43200000).toISOString().slice(0, 10);
+    }
+  }
+  return normalized;
+}
+
+function v7CurrencyValue(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+// Values are only moved out of record_data when their column holds them exactly
+function v7SplitRecord(record: Record<string, unknown>, promoted: V7PromotedColumns) {
+  const rest = { ...record };
+  const take = <T>(key: string | null, toTyped: (value: unknown) => T | null): T | null => {
+    if (!key || !(key in rest)) return null;
+    const value = rest[key];
+    const typed = value === null || value === undefined ? null : toTyped(value);
+    if (typed === value || value === null || value === undefined) {
+      delete rest[key];
+    }
+    return typed;
+  };
+
+  return {
+    lesson_date: take(promoted.date, value => typeof value === 'string' && V7_CALENDAR_DATE.test(value) ? value : null),
+    client_name: take(promoted.client, value => {
+      const text = String(value).trim();
+      return text === '' ? null : text;
+    }),
+    amount: take(promoted.amount, v7CurrencyValue),
+    start_time: take('startTime', value => typeof value === 'string' ? value : null),
+    duration_minutes: take('durationMinutes', value => typeof value === 'number' ? value : null),
+    record_data: JSON.stringify(rest),
+  };
+}
+
+// Migration 12's client name normalization as it was released, for the same reason
+function v12NormalizeClientName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+// Applied in order and recorded in schema_migrations. Never edit or renumber a migration
+// that has been released; add a new one instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS uploaded_files (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          filename TEXT NOT NULL,
+          content_hash TEXT UNIQUE NOT NULL,
+          uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          total_amount REAL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS invoice_records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_id INTEGER NOT NULL,
+          record_data TEXT NOT NULL,
+          FOREIGN KEY (file_id) REFERENCES uploaded_files(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS file_columns (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_id INTEGER NOT NULL,
+          column_name TEXT NOT NULL,
+          FOREIGN KEY (file_id) REFERENCES uploaded_files(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_content_hash ON uploaded_files(content_hash);
+        CREATE INDEX IF NOT EXISTS idx_filename ON uploaded_files(filename);
+        CREATE INDEX IF NOT EXISTS idx_file_id ON invoice_records(file_id);
+
+        CREATE TABLE IF NOT EXISTS distance_cache (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          origin_address TEXT NOT NULL,
+          destination_address TEXT NOT NULL,
+          distance_km REAL NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(origin_address, destination_address)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_distance_origin ON distance_cache(origin_address);
+        CREATE INDEX IF NOT EXISTS idx_distance_destination ON distance_cache(destination_address);
+
+        CREATE TABLE IF NOT EXISTS addresses (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          address_type TEXT NOT NULL,
+          client_name TEXT,
+          address TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(address_type, client_name)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_address_type ON addresses(address_type);
+        CREATE INDEX IF NOT EXISTS idx_client_name ON addresses(client_name);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'add_invoice_records_kilometers',
+    up: (database) => {
+      addColumn(database, 'invoice_records', 'kilometers', 'REAL DEFAULT NULL');
+    },
+  },
+  {
+    version: 3,
+    name: 'create_layout_profiles',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS layout_profiles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          config TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'add_uploaded_files_sheet_name',
+    up: (database) => {
+      // NULL for files uploaded before multi-sheet import
+      addColumn(database, 'uploaded_files', 'sheet_name', 'TEXT DEFAULT NULL');
+    },
+  },
+  {
+    version: 5,
+    name: 'add_invoice_metadata',
+    up: (database) => {
+      for (const column of ['invoice_number', 'issue_date', 'billing_period_start', 'billing_period_end', 'bill_to']) {
+        addColumn(database, 'uploaded_files', column, 'TEXT DEFAULT NULL');
+      }
+      database.exec(`CREATE INDEX IF NOT EXISTS idx_invoice_number ON uploaded_files(invoice_number)`);
+    },
+  },
+  {
+    version: 6,
+    name: 'add_line_item_reconciliation',
+    up: (database) => {
+      for (const column of ['line_items_total', 'total_difference']) {
+        addColumn(database, 'uploaded_files', column, 'REAL DEFAULT NULL');
+      }
+    },
+  },
+  {
+    version: 7,
+    name: 'add_typed_record_columns',
+    up: (database) => {
+      addColumn(database, 'invoice_records', 'lesson_date', 'TEXT DEFAULT NULL');
+      addColumn(database, 'invoice_records', 'client_name', 'TEXT DEFAULT NULL');
+      addColumn(database, 'invoice_records', 'amount', 'REAL DEFAULT NULL');
+      addColumn(database, 'invoice_records', 'start_time', 'TEXT DEFAULT NULL');
+      addColumn(database, 'invoice_records', 'duration_minutes', 'INTEGER DEFAULT NULL');
+      database.exec(`
+        CREATE INDEX IF NOT EXISTS idx_records_lesson_date ON invoice_records(lesson_date);
+        CREATE INDEX IF NOT EXISTS idx_records_client_name ON invoice_records(client_name);
+      `);
+
+      // Move the promoted fields of existing records out of record_data
+      const fileIds = database.prepare('SELECT DISTINCT file_id FROM invoice_records').all() as { file_id: number }[];
+      const selectColumns = database.prepare('SELECT column_name FROM file_columns WHERE file_id = ?');
+      const selectRecords = database.prepare('SELECT id, record_data FROM invoice_records WHERE file_id = ?');
+      const updateRecord = database.prepare(`
+        UPDATE invoice_records
+        SET lesson_date = ?, client_name = ?, amount = ?, start_time = ?, duration_minutes = ?, record_data = ?
+        WHERE id = ?
+      `);
+
+      for (const { file_id } of fileIds) {
+        const columns = (selectColumns.all(file_id) as { column_name: string }[]).map(row => row.column_name);
+        const promoted = v7PromotedColumns(columns);
+        for (const row of selectRecords.all(file_id) as { id: number; record_data: string }[]) {
+          // Lesson dates saved in the old timestamp format become calendar dates here
+          const stored = v7SplitRecord(v7NormalizeDates(JSON.parse(row.record_data)), promoted);
+          updateRecord.run(
+            stored.lesson_date,
+            stored.client_name,
+            stored.amount,
+            stored.start_time,
+            stored.duration_minutes,
+            stored.record_data,
+            row.id
+          );
+        }
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'create_pending_reviews',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS pending_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          filename TEXT NOT NULL,
+          sheet_name TEXT DEFAULT NULL,
+          existing_file_id INTEGER NOT NULL,
+          content_hash TEXT NOT NULL,
+          new_data TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(existing_file_id, content_hash),
+          FOREIGN KEY (existing_file_id) REFERENCES uploaded_files(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'add_invoice_records_duplicate_of',
+    up: (database) => {
+      // Set when a record is hidden as a copy of the same lesson in another file
+      addColumn(database, 'invoice_records', 'duplicate_of', 'INTEGER DEFAULT NULL REFERENCES invoice_records(id) ON DELETE SET NULL');
+      database.exec(`CREATE INDEX IF NOT EXISTS idx_records_duplicate_of ON invoice_records(duplicate_of)`);
+    },
+  },
+  {
+    version: 10,
+    name: 'add_uploaded_files_deleted_at',
+    up: (database) => {
+      // Set when a file is moved to the trash
+      addColumn(database, 'uploaded_files', 'deleted_at', 'DATETIME DEFAULT NULL');
+      database.exec(`CREATE INDEX IF NOT EXISTS idx_deleted_at ON uploaded_files(deleted_at)`);
+    },
+  },
+  {
+    version: 11,
+    name: 'create_audit_log',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          action TEXT NOT NULL,
+          change TEXT NOT NULL,
+          table_name TEXT NOT NULL,
+          row_id INTEGER NOT NULL,
+          file_id INTEGER DEFAULT NULL,
+          client_name TEXT DEFAULT NULL,
+          lesson_date TEXT DEFAULT NULL,
+          before_data TEXT DEFAULT NULL,
+          after_data TEXT DEFAULT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_audit_file_id ON audit_log(file_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_client_name ON audit_log(client_name);
+        CREATE INDEX IF NOT EXISTS idx_audit_changed_at ON audit_log(changed_at);
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+
+        -- The operation being carried out, set by the app around each change
+        CREATE TABLE IF NOT EXISTS audit_context (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          action TEXT
+        );
+      `);
+
+      for (const audited of AUDITED_TABLES) {
+        createAuditTriggers(database, audited);
+      }
+    },
+  },
+  {
+    version: 12,
+    name: 'create_clients',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS clients (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          email TEXT DEFAULT NULL,
+          phone TEXT DEFAULT NULL,
+          notes TEXT DEFAULT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Other spellings of a client's name found in invoices
+        CREATE TABLE IF NOT EXISTS client_aliases (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          client_id INTEGER NOT NULL,
+          alias TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_client_aliases_client_id ON client_aliases(client_id);
+      `);
+      addColumn(database, 'invoice_records', 'client_id', 'INTEGER DEFAULT NULL REFERENCES clients(id) ON DELETE SET NULL');
+      database.exec(`CREATE INDEX IF NOT EXISTS idx_records_client_id ON invoice_records(client_id)`);
+
+      // Every client name seen so far becomes a client. Spellings that differ only in case or
+      // spacing belong to the first one seen, and their addresses move to that client.
+      const names = database.prepare(`
+        SELECT client_name FROM invoice_records WHERE client_name IS NOT NULL
+        UNION
+        SELECT client_name FROM addresses WHERE address_type = 'client' AND client_name IS NOT NULL
+      `).all() as { client_name: string }[];
+      const findClient = database.prepare('SELECT id, name FROM clients WHERE name = ?');
+      const insertClient = database.prepare('INSERT INTO clients (name) VALUES (?)');
+      const linkRecords = database.prepare('UPDATE invoice_records SET client_id = ? WHERE client_name = ?');
+      const moveAddress = database.prepare(`
+        UPDATE addresses SET client_name = ?
+        WHERE address_type = 'client' AND client_name = ? AND NOT EXISTS (
+          SELECT 1 FROM addresses WHERE address_type = 'client' AND client_name = ?
+        )
+      `);
+
+      for (const { client_name } of names) {
+        const name = v12NormalizeClientName(client_name);
+        if (name === '') continue;
+        let client = findClient.get(name) as { id: number; name: string } | undefined;
+        if (!client) {
+          client = { id: insertClient.run(name).lastInsertRowid as number, name };
+        }
+        if (client_name !== client.name) {
+          moveAddress.run(client.name, client_name, client.name);
+        }
+        linkRecords.run(client.id, client_name);
+      }
+
+      createAuditTriggers(database, auditedWithColumns('invoice_records', ['client_id']));
+      createAuditTriggers(database, {
+        table: 'clients',
+        columns: ['name', 'email', 'phone', 'notes'],
+        fileId: null,
+        clientName: 'name',
+        lessonDate: null,
+      });
+      createAuditTriggers(database, {
+        table: 'client_aliases',
+        columns: ['client_id', 'alias'],
+        fileId: null,
+        clientName: 'alias',
+        lessonDate: null,
+      });
+    },
+  },
+  {
+    version: 13,
+    name: 'add_invoice_records_source',
+    up: (database) => {
+      // 'upload' for lessons read from a spreadsheet, 'manual' for lessons added by hand
+      // and 'edited' for uploaded lessons changed by hand since
+      database.exec(`
+        ALTER TABLE invoice_records ADD COLUMN source TEXT NOT NULL DEFAULT 'upload';
+      `);
+      createAuditTriggers(database, auditedWithColumns('invoice_records', ['client_id', 'source']));
+    },
+  },
+  {
+    version: 14,
+    name: 'create_source_files',
+    up: (database) => {
+      // The original bytes of each uploaded workbook, shared by the files read from its
+      // sheets and by reviews waiting on it. Not audited: the content never changes.
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS source_files (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          filename TEXT NOT NULL,
+          content_hash TEXT UNIQUE NOT NULL,
+          content BLOB NOT NULL,
+          size INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      addColumn(database, 'uploaded_files', 'source_file_id', 'INTEGER DEFAULT NULL REFERENCES source_files(id) ON DELETE SET NULL');
+      addColumn(database, 'pending_reviews', 'source_file_id', 'INTEGER DEFAULT NULL REFERENCES source_files(id) ON DELETE SET NULL');
+      createAuditTriggers(database, auditedWithColumns('uploaded_files', ['source_file_id']));
+    },
+  },
+  {
+    version: 15,
+    name: 'audit_reviews_and_layout_profiles',
+    up: (database) => {
+      // A review's parsed lessons are left out; its file's own entries show what was taken
+      createAuditTriggers(database, {
+        table: 'pending_reviews',
+        columns: ['filename', 'sheet_name', 'existing_file_id', 'content_hash', 'status', 'source_file_id'],
+        fileId: 'existing_file_id',
+        clientName: null,
+        lessonDate: null,
+      });
+      createAuditTriggers(database, {
+        table: 'layout_profiles',
+        columns: ['name', 'config'],
+        fileId: null,
+        clientName: null,
+        lessonDate: null,
+      });
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+}
+
+// Apply pending migrations, each in its own transaction so a failure leaves the
+// database at the last good version. Throws if the database was migrated by a
+// newer version of the app or its history doesn't match the known migrations.
+export function runMigrations(database: Database.Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const applied = database
+    .prepare('SELECT version, name FROM schema_migrations ORDER BY version')
+    .all() as AppliedMigration[];
+
+  for (const { version, name } of applied) {
+    const migration = MIGRATIONS.find(m => m.version === version);
+    if (!migration) {
+      throw new Error(`Database schema version ${version} (${name}) is newer than this app supports (${SCHEMA_VERSION})`);
+    }
+    if (migration.name !== name) {
+      throw new Error(`Database migration ${version} is recorded as "${name}" but this app expects "${migration.name}"`);
+    }
+  }
+
+  const appliedVersions = new Set(applied.map(m => m.version));
+  const recordMigration = database.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+  for (const migration of MIGRATIONS) {
+    if (appliedVersions.has(migration.version)) continue;
+
+    try {
+      database.transaction(() => {
+        migration.up(database);
+        recordMigration.run(migration.version, migration.name);
+      })();
+    } catch (error) {
+      throw new Error(`Database migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    console.log(`Applied database migration ${migration.version} (${migration.name})`);
+  }
+}
@@ -0,0 +1,87 @@
+import { InvoiceRecord } from './invoiceTypes';
+import { isCalendarDate } from './calendarDate';
+import { findAmountColumn, findClientColumn, findDateColumn, parseCurrencyValue } from './invoiceColumns';
+
+// Headers of the spreadsheet columns promoted to typed invoice_records columns
+export interface PromotedColumns {
+  date: string | null;
+  client: string | null;
+  amount: string | null;
+}
+
+// The typed columns of an invoice_records row. Everything else in the record is
+// kept in record_data as JSON.
+export interface TypedRecordFields {
+  lesson_date: string | null; // YYYY-MM-DD
+  client_name: string | null;
+  amount: number | null;
+  start_time: string | null; // HH:MM
+  duration_minutes: number | null;
+}
+
+export interface StoredRecord extends TypedRecordFields {
+  record_data: string;
+}
+
+// Fields the app adds to records it reads back (_dbId, kilometers). They live in their
+// own columns, are never saved in record_data and don't count as lesson changes.
+export function isAppField(key: string): boolean {
+  return key.startsWith('_') || key === 'kilometers';
+}
+
+export function getPromotedColumns(columns: string[]): PromotedColumns {
+  return {
+    date: findDateColumn(columns),
+    client: findClientColumn(columns),
+    amount: findAmountColumn(columns),
+  };
+}
+
+// Split a record into typed columns and the JSON of the remaining fields. A value is
+// only moved out of the JSON when its column holds it exactly, so text such as
+// "$50.00" or a date that couldn't be read is kept as it was uploaded.
+export function splitRecord(record: InvoiceRecord, promoted: PromotedColumns): StoredRecord {
+  const rest: InvoiceRecord = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!isAppField(key)) rest[key] = value;
+  }
+
+  const take = <T>(key: string | null, toTyped: (value: unknown) => T | null): T | null => {
+    if (!key || !(key in rest)) return null;
+    const value = rest[key];
+    const typed = value === null || value === undefined ? null : toTyped(value);
+    if (typed === value || value === null || value === undefined) {
+      delete rest[key];
+    }
+    return typed;
+  };
+
+  const fields: TypedRecordFields = {
+    lesson_date: take(promoted.date, value => isCalendarDate(value) ? value : null),
+    client_name: take(promoted.client, value => {
+      const text = String(value).trim();
+      return text === '' ? null : text;
+    }),
+    amount: take(promoted.amount, value => parseCurrencyValue(value)),
+    start_time: take('startTime', value => typeof value === 'string' ? value : null),
+    duration_minutes: take('durationMinutes', value => typeof value === 'number' ? value : null),
+  };
+
+  return { ...fields, record_data: JSON.stringify(rest) };
+}
+
+// Rebuild the record saved by splitRecord. Values kept in the JSON win over the typed columns.
+export function joinRecord(row: StoredRecord, promoted: PromotedColumns): InvoiceRecord {
+  const record: InvoiceRecord = {};
+
+  const put = (key: string | null, value: string | number | null) => {
+    if (key) record[key] = value;
+  };
+  put(promoted.date, row.lesson_date);
+  put(promoted.client, row.client_name);
+  put(promoted.amount, row.amount);
+  if (row.start_time !== null) record.startTime = row.start_time;
+  if (row.duration_minutes !== null) record.durationMinutes = row.duration_minutes;
+
+  return { ...record, ...JSON.parse(row.record_data) };
+}
@@ -0,0 +1,104 @@
+import { InvoiceRecord, RecordIdentity, ResolvedRecordIdentity } from './invoiceTypes';
+import { findBookingIdColumn, findClientColumn, findDateColumn, findStartTimeColumn } from './invoiceColumns';
+
+export type RecordKeyFunction = (record: InvoiceRecord) => string;
+
+export interface RecordPairing {
+  pairs: { old: InvoiceRecord; new: InvoiceRecord }[];
+  added: InvoiceRecord[];
+  removed: InvoiceRecord[];
+}
+
+export function resolveRecordIdentity(identity: RecordIdentity, columns: string[]): ResolvedRecordIdentity {
+  if (identity !== 'auto') return identity;
+  if (findBookingIdColumn(columns)) return 'booking-id';
+  if (findStartTimeColumn(columns)) return 'date-client-time';
+  return 'date-client';
+}
+
+// Key that identifies a lesson, e.g. "2024-03-01 | Jane Citizen | 09:30" or "#B1042".
+// A record with a blank booking ID falls back to its date, client and start time.
+export function recordKeyFunction(identity: ResolvedRecordIdentity, columns: string[]): RecordKeyFunction {
+  const dateColumn = findDateColumn(columns);
+  const clientColumn = findClientColumn(columns);
+  const bookingIdColumn = findBookingIdColumn(columns);
+  const text = (record: InvoiceRecord, column: string | null): string =>
+    column ? String(record[column] ?? '').trim() : '';
+
+  return (record) => {
+    if (identity === 'booking-id') {
+      const bookingId = text(record, bookingIdColumn);
+      if (bookingId) return `#${bookingId}`;
+    }
+    const parts = [text(record, dateColumn), text(record, clientColumn)];
+    if (identity !== 'date-client' && record.startTime) {
+      parts.push(record.startTime);
+    }
+    return parts.join(' | ');
+  };
+}
+
+// Key functions to pair lessons with, most specific first. Lessons left over are paired
+// on date and client, so a lesson whose start time changed (or that was uploaded before
+// start times were read) shows as modified rather than removed and added.
+export function recordMatchers(identity: ResolvedRecordIdentity, columns: string[]): RecordKeyFunction[] {
+  const matchers = [recordKeyFunction(identity, columns)];
+  if (identity !== 'date-client') {
+    matchers.push(recordKeyFunction('date-client', columns));
+  }
+  return matchers;
+}
+
+// Keys shared by more than one record
+export function findDuplicateKeys(records: InvoiceRecord[], keyOf: RecordKeyFunction): string[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    const key = keyOf(record);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([key]) => key);
+}
+
+// Match each new record with an existing one, trying each key function in turn on the
+// records still unmatched. Records sharing a key are matched in order, never dropped.
+export function pairRecords(
+  existingRecords: InvoiceRecord[],
+  newRecords: InvoiceRecord[],
+  matchers: RecordKeyFunction[]
+): RecordPairing {
+  const pairing: RecordPairing = { pairs: [], added: [], removed: [] };
+  let remainingExisting = existingRecords;
+  let remainingNew = newRecords;
+
+  for (const keyOf of matchers) {
+    const unmatched = new Map<string, InvoiceRecord[]>();
+    for (const record of remainingExisting) {
+      const key = keyOf(record);
+      const records = unmatched.get(key);
+      if (records) {
+        records.push(record);
+      } else {
+        unmatched.set(key, [record]);
+      }
+    }
+
+    const stillNew: InvoiceRecord[] = [];
+    for (const record of remainingNew) {
+      const match = unmatched.get(keyOf(record))?.shift();
+      if (match) {
+        pairing.pairs.push({ old: match, new: record });
+      } else {
+        stillNew.push(record);
+      }
+    }
+
+    remainingNew = stillNew;
+    remainingExisting = Array.from(unmatched.values()).flat();
+  }
+
+  pairing.added = remainingNew;
+  pairing.removed = remainingExisting;
+  return pairing;
+}
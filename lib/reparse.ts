@@ -0,0 +1,82 @@
+import { parseWorkbook } from './excelParser';
+import { computeSheetHash } from './fileHash';
+import { DEFAULT_LAYOUT_PROFILE } from './layoutProfiles';
+import { ParsedInvoiceData } from './invoiceTypes';
+import {
+  getAllUploadedFiles,
+  getAllLayoutProfiles,
+  getSourceFile,
+  compareFileData,
+  diffHasChanges,
+  replaceFile,
+  savePendingReview,
+  UploadedFile
+} from './database';
+
+// 'unchanged': the lessons read the same (the file's details are refreshed);
+// 'review': the lessons differ and wait in the review queue; 'failed': the workbook
+// can't be read as this file any more
+export type ReparseOutcome = 'unchanged' | 'review' | 'failed';
+
+export interface ReparseResult {
+  fileId: number;
+  filename: string;
+  sheetName: string | null;
+  outcome: ReparseOutcome;
+  reviewId?: number;
+  message: string;
+}
+
+// Read an uploaded file again from its kept workbook with the current parser and layout
+// profiles (detected as on upload). Changed lessons go through the same review as a
+// re-upload; dates picked for ambiguous rows on upload are read again and may show up there.
+function reparse(file: UploadedFile): ReparseResult {
+  const result = { fileId: file.id, filename: file.filename, sheetName: file.sheet_name };
+  const source = getSourceFile(file.id);
+  if (!source) {
+    return { ...result, outcome: 'failed', message: 'The original file was not kept; upload it again instead' };
+  }
+
+  const content = source.content;
+  const buffer = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+  let invoices: ParsedInvoiceData[];
+  try {
+    invoices = parseWorkbook(buffer, [...getAllLayoutProfiles(), DEFAULT_LAYOUT_PROFILE], source.filename).invoices;
+  } catch (error) {
+    return { ...result, outcome: 'failed', message: error instanceof Error ? error.message : 'Failed to parse file' };
+  }
+
+  // Files uploaded before multi-sheet import have no sheet name and were read from the first invoice sheet
+  const data = invoices.find(invoice => invoice.sheetName === file.sheet_name)
+    ?? (file.sheet_name === null ? invoices[0] : undefined);
+  if (!data) {
+    return { ...result, outcome: 'failed', message: `Sheet "${file.sheet_name}" is no longer read as an invoice` };
+  }
+  data.fileName = file.filename;
+
+  // A sheet of a multi-invoice workbook is identified by its parsed content, as on upload
+  const contentHash = file.content_hash === source.content_hash ? file.content_hash : computeSheetHash(data);
+  const diff = compareFileData(file.id, data);
+  if (diffHasChanges(diff)) {
+    const reviewId = savePendingReview(file.filename, file.id, contentHash, data, source.id);
+    return { ...result, outcome: 'review', reviewId, message: 'Lessons read differently; waiting for review' };
+  }
+
+  replaceFile(file.id, file.filename, contentHash, data);
+  return { ...result, outcome: 'unchanged', message: 'Lessons unchanged' };
+}
+
+export function reparseFile(fileId: number): ReparseResult {
+  const file = getAllUploadedFiles().find(f => f.id === fileId);
+  if (!file) {
+    throw new Error('File not found');
+  }
+  return reparse(file);
+}
+
+// Read every file whose workbook was kept again
+export function reparseAllFiles(): ReparseResult[] {
+  return getAllUploadedFiles()
+    .filter(file => file.source_file_id !== null)
+    .map(reparse);
+}
@@ -2,6 +2,8 @@ import { InvoiceRecord } from '@/lib/invoiceTypes';
 import { TripLeg, InvoiceWithDistance } from '@/types/addressTypes';
 import { getHomeAddress, getClientAddress } from './addressStorage';
 import { calculateDistance } from './distanceCalculator';
+import { isCalendarDate } from './calendarDate';
+import { recordClientName } from './clientMatching';
 
 // Save kilometers to database via API
 async function saveKilometersToDb(recordId: number, kilometers: number): Promise<void> {
@@ -59,15 +61,11 @@ export async function calculateRoutesForInvoices(
     const dateValue = invoice[lessonDateKey];
     if (!dateValue) return;
 
-    let dateKey: string;
-    if (dateValue instanceof Date) {
-      dateKey = dateValue.toISOString().split('T')[0];
-    } else if (typeof dateValue === 'string') {
-      const date = new Date(dateValue);
-      dateKey = date.toISOString().split('T')[0];
-    } else {
+    // Lesson dates are YYYY-MM-DD calendar dates, so they group by day as-is
+    if (!isCalendarDate(dateValue)) {
       return;
     }
+    const dateKey = dateValue;
 
     if (!invoicesByDate.has(dateKey)) {
       invoicesByDate.set(dateKey, []);
@@ -85,7 +83,7 @@ export async function calculateRoutesForInvoices(
     const validClients: { invoice: InvoiceRecord; clientName: string; clientAddress: string }[] = [];
 
     for (const invoice of dayInvoices) {
-      const clientName = String(invoice[clientNameKey] || '').trim();
+      const clientName = recordClientName(invoice);
       const clientAddress = getClientAddress(clientName);
 
       // Check if kilometers already exists in the database
@@ -0,0 +1,88 @@
+import * as XLSX from 'xlsx';
+
+// File types accepted by the upload pipeline
+export const SUPPORTED_SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv'];
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+export function isSupportedSpreadsheet(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return SUPPORTED_SPREADSHEET_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+function isCsvFile(filename: string | undefined): boolean {
+  return !!filename && filename.toLowerCase().endsWith('.csv');
+}
+
+// Decode CSV bytes. A byte order mark wins; otherwise try UTF-8 and fall back to
+// Windows-1252, which is what Excel and most booking systems on Windows export.
+export function decodeCsvText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+// Count delimiter characters outside quoted fields on one line
+function countDelimiters(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Pick the delimiter that splits the first non-empty lines into the most columns,
+// preferring one that gives every line the same number of columns
+export function detectCsvDelimiter(text: string): string {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, 20);
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = -1;
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map(line => countDelimiters(line, delimiter));
+    const max = Math.max(...counts);
+    if (max === 0) continue;
+    // Lines above the header (title, address) often have fewer columns, so score on
+    // the most common column count rather than requiring every line to match
+    const frequency = counts.filter(count => count === max).length;
+    const score = max * frequency;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Read any supported spreadsheet into a workbook. CSV cells are kept as text so
+// dates like 01/03/2024 go through the parser's own day/month handling instead
+// of being read as US dates.
+export function readWorkbook(buffer: ArrayBuffer, filename?: string): XLSX.WorkBook {
+  const data = new Uint8Array(buffer);
+
+  if (isCsvFile(filename)) {
+    const text = decodeCsvText(data);
+    return XLSX.read(text, { type: 'string', raw: true, FS: detectCsvDelimiter(text) });
+  }
+
+  // .xlsx, .xls and .ods are detected from the file contents
+  return XLSX.read(data, { type: 'array' });
+}